@@ -1,106 +1,557 @@
-import React, { useState, useEffect } from 'react';
-import { UploadedFile, WorkflowStep, StepStatus, AgentState } from './types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { UploadedFile, WorkflowStep, StepStatus, AgentState, FileCoverage, WorkflowRun, WorkflowTemplate, GenerationSettings, FollowUpMessage, ModelUsage, RunBudget } from './types';
 import FileUpload from './components/FileUpload';
 import WorkflowList from './components/WorkflowList';
-import { generateWorkflowPlan, executeWorkflowStep } from './services/geminiService';
-import { Bot, Sparkles, StopCircle, RefreshCw, LayoutDashboard } from 'lucide-react';
+import FollowUpChat from './components/FollowUpChat';
+import RunHistory from './components/RunHistory';
+import RunExportMenu from './components/RunExportMenu';
+import TemplatePicker from './components/TemplatePicker';
+import GenerationSettingsForm from './components/GenerationSettingsForm';
+import SettingsDialog, { SettingsDialogSaveOptions } from './components/SettingsDialog';
+import { generateWorkflowPlan, answerFollowUp, configureProvider, getProviderConfig, MissingApiKeyError, PlanGenerationError } from './services/geminiService';
+import { PROVIDER_LABELS, requiresApiKey, resolveProviderConfig } from './services/providers';
+import { ApiKeys, clearStoredKeys, getStoredKeysState, loadPlainKeys, loadProviderSettings, saveKeys, saveProviderSettings, StoredKeysState, unlockKeys } from './services/keyStore';
+import { getModelContextWindow, setModelContextWindow } from './services/contextBudget';
+import { DEFAULT_GENERATION_SETTINGS } from './services/generation';
+import { createWorkflowRunner, WorkflowRunner } from './services/workflowRunner';
+import { toPendingSteps } from './services/workflowGraph';
+import { classifyError, getErrorMessage } from './services/errors';
+import { listRuns, getRun, saveRun, deleteRun, restoreInterruptedSteps } from './services/runStore';
+import { addUsage, createBudgetGuard, getFollowUpUsages, getRunUsages } from './services/usage';
+import { generateId } from './utils/fileUtils';
+import { downloadFile } from './utils/download';
+import { parseRunBundle, RunImportError } from './utils/runExport';
+import { listTemplates, saveTemplate, deleteTemplate } from './services/templateStore';
+import { applyTemplate, createTemplateBundle, createTemplateFromSteps, parseTemplateBundle, TemplateImportError } from './utils/templates';
+import { throttle } from './utils/throttle';
+import { Bot, Sparkles, StopCircle, RefreshCw, LayoutDashboard, Pause, Play, XCircle, History, SlidersHorizontal, ChevronDown, ChevronRight, KeyRound } from 'lucide-react';
+
+const STREAM_UPDATE_INTERVAL_MS = 100;
+const MAX_PARALLEL_STEPS = 6;
+const RUN_SAVE_INTERVAL_MS = 1000;
+
+const INITIAL_AGENT_STATE: AgentState = {
+  isAnalyzing: false,
+  goal: '',
+  isReviewing: false,
+  isExecuting: false,
+  isPaused: false,
+  pauseRequested: false,
+  currentStepId: null,
+};
+
+const getRunName = (goal: string, files: UploadedFile[]): string => {
+  if (goal) return goal.length > 60 ? `${goal.slice(0, 57)}...` : goal;
+  const names = files.map(f => f.name);
+  return names.slice(0, 2).join(', ') + (names.length > 2 ? ` +${names.length - 2}` : '');
+};
+
+// A promoted chat answer is titled after the question that produced it
+const getFollowUpStepTitle = (question: string): string => {
+  const firstLine = question.trim().split('\n')[0];
+  return firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine;
+};
+
+const describePlanError = (err: unknown, fallback: string): string => {
+  if (err instanceof PlanGenerationError) return `${err.message} ${err.issues.slice(0, 3).join('; ')}`;
+  if (err instanceof MissingApiKeyError) return `${err.message} Add one in Settings or set it in .env.local.`;
+  return fallback;
+};
 
 export const App: React.FC = () => {
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [workflowSteps, setWorkflowSteps] = useState<WorkflowStep[]>([]);
-  const [agentState, setAgentState] = useState<AgentState>({
-    isAnalyzing: false,
-    isExecuting: false,
-    currentStepId: null,
-  });
+  const [agentState, setAgentState] = useState<AgentState>(INITIAL_AGENT_STATE);
+  const [goalInput, setGoalInput] = useState('');
+  const [reviewBeforeRun, setReviewBeforeRun] = useState(false);
+  const [maxConcurrency, setMaxConcurrency] = useState(2);
+  // Applies to planning and every step unless a step overrides it
+  const [workflowSettings, setWorkflowSettings] = useState<GenerationSettings>({});
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [providerSettings, setProviderSettings] = useState(loadProviderSettings);
+  // Keys entered in the settings dialog; they win over the ones in .env.local
+  const [apiKeys, setApiKeys] = useState<ApiKeys>(loadPlainKeys);
+  const [keyStorage, setKeyStorage] = useState<StoredKeysState>(getStoredKeysState);
+  const [keysLocked, setKeysLocked] = useState(() => getStoredKeysState() === 'encrypted');
+  const [isProviderDialogOpen, setIsProviderDialogOpen] = useState(false);
+  const [contextWindow, setContextWindow] = useState(() => getModelContextWindow(getProviderConfig().model));
+  // Latest view of how much of each file reached the model
+  const [fileCoverage, setFileCoverage] = useState<Record<string, FileCoverage>>({});
   const [error, setError] = useState<string | null>(null);
+  const [runs, setRuns] = useState<WorkflowRun[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // The run being shown/saved; null until a plan has been generated
+  const [currentRun, setCurrentRun] = useState<Pick<WorkflowRun, 'id' | 'name' | 'createdAt'> | null>(null);
+  const [templates, setTemplates] = useState<WorkflowTemplate[]>([]);
+  // Template to run instead of asking the model for a plan
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [chat, setChat] = useState<FollowUpMessage[]>([]);
+  // Token and cost ceilings for the model calls of the current run
+  const [budget, setBudget] = useState<RunBudget>({});
+  // What generating (and regenerating) the plan used
+  const [planUsage, setPlanUsage] = useState<ModelUsage | undefined>();
+  // What follow-up answers cleared from the chat used
+  const [followUpUsage, setFollowUpUsage] = useState<ModelUsage | undefined>();
+  const [isAnswering, setIsAnswering] = useState(false);
+  const chatAbortRef = useRef<AbortController | null>(null);
+
+  // Mirror of workflowSteps that is updated synchronously, so the runner
+  // always reads the latest results even before React re-renders.
+  const stepsRef = useRef<WorkflowStep[]>([]);
+  const filesRef = useRef<UploadedFile[]>(files);
+  filesRef.current = files;
+  const goalRef = useRef(agentState.goal);
+  goalRef.current = agentState.goal;
+  const concurrencyRef = useRef(maxConcurrency);
+  concurrencyRef.current = maxConcurrency;
+  const settingsRef = useRef(workflowSettings);
+  settingsRef.current = workflowSettings;
+  const budgetRef = useRef(budget);
+  budgetRef.current = budget;
+  const pricesRef = useRef(providerSettings.prices);
+  pricesRef.current = providerSettings.prices;
+  const followUpUsages = getFollowUpUsages(chat, followUpUsage);
+  const otherUsageRef = useRef([planUsage, ...followUpUsages]);
+  otherUsageRef.current = [planUsage, ...followUpUsages];
+
+  const commitSteps = useCallback((updater: (prev: WorkflowStep[]) => WorkflowStep[]) => {
+    stepsRef.current = updater(stepsRef.current);
+    setWorkflowSteps(stepsRef.current);
+  }, []);
+
+  const recordCoverage = useCallback((coverage: FileCoverage[]) => {
+    setFileCoverage(Object.fromEntries(coverage.map(c => [c.fileId, c])));
+  }, []);
+
+  const providerConfig = useMemo(() => resolveProviderConfig(import.meta.env, providerSettings, apiKeys), [providerSettings, apiKeys]);
+  const isKeyMissing = requiresApiKey(providerConfig) && !providerConfig.apiKey;
 
-  // Auto-executor: watches for steps that are pending and runs them sequentially
   useEffect(() => {
-    if (!agentState.isExecuting) return;
+    configureProvider(providerConfig);
+  }, [providerConfig]);
 
-    const executeNextStep = async () => {
-      const nextStepIndex = workflowSteps.findIndex(s => s.status === StepStatus.PENDING);
-      
-      if (nextStepIndex === -1) {
-        setAgentState(prev => ({ ...prev, isExecuting: false, currentStepId: null }));
-        return;
-      }
+  const activeModel = workflowSettings.model || providerConfig.model;
 
-      const nextStep = workflowSteps[nextStepIndex];
-      
-      // Update status to PROCESSING
-      setWorkflowSteps(prev => prev.map(s => 
-        s.id === nextStep.id ? { ...s, status: StepStatus.PROCESSING } : s
-      ));
-      setAgentState(prev => ({ ...prev, currentStepId: nextStep.id }));
-
-      try {
-        // Execute the step via Gemini - now returns { result, thinking }
-        const { result, thinking } = await executeWorkflowStep(nextStep, files, workflowSteps);
-        
-        // Update status to COMPLETED with result AND thinking
-        setWorkflowSteps(prev => prev.map(s => 
-          s.id === nextStep.id ? { 
-            ...s, 
-            status: StepStatus.COMPLETED, 
-            result,
-            thinking 
-          } : s
-        ));
-      } catch (err) {
-        console.error("Step execution failed:", err);
-        setWorkflowSteps(prev => prev.map(s => 
-          s.id === nextStep.id ? { 
-            ...s, 
-            status: StepStatus.FAILED, 
-            result: "Failed to execute step." 
-          } : s
-        ));
-        // Stop execution on failure
-        setAgentState(prev => ({ ...prev, isExecuting: false }));
-      }
-    };
+  // Context windows are remembered per model
+  useEffect(() => {
+    setContextWindow(getModelContextWindow(activeModel));
+  }, [activeModel]);
+
+  const handleContextWindowChange = (tokens: number) => {
+    setContextWindow(tokens);
+    setModelContextWindow(activeModel, tokens);
+  };
+
+  const runnerRef = useRef<WorkflowRunner | null>(null);
+  if (!runnerRef.current) {
+    runnerRef.current = createWorkflowRunner({
+      getSteps: () => stepsRef.current,
+      getFiles: () => filesRef.current,
+      getGoal: () => goalRef.current,
+      getSettings: () => settingsRef.current,
+      updateStep: (stepId, patch) => commitSteps(prev => prev.map(s => s.id === stepId ? { ...s, ...patch } : s)),
+      onStateChange: (patch) => setAgentState(prev => ({ ...prev, ...patch })),
+      getMaxConcurrency: () => concurrencyRef.current,
+      onContextPrepared: (_stepId, coverage) => recordCoverage(coverage),
+      streamUpdateIntervalMs: STREAM_UPDATE_INTERVAL_MS,
+      getBudget: () => budgetRef.current,
+      getPrices: () => pricesRef.current || {},
+      getOtherUsage: () => otherUsageRef.current,
+    });
+  }
+  const runner = runnerRef.current;
+
+  // Abort anything still in flight when the app unmounts
+  useEffect(() => () => runnerRef.current?.stop(), []);
+
+  useEffect(() => {
+    listRuns()
+      .then(setRuns)
+      .catch(err => console.error("Failed to load run history:", err));
+    listTemplates()
+      .then(setTemplates)
+      .catch(err => console.error("Failed to load templates:", err));
+  }, []);
+
+  const persistRun = useRef(throttle((run: WorkflowRun) => {
+    saveRun(run).catch(err => console.error("Failed to save run:", err));
+    setRuns(prev => [run, ...prev.filter(r => r.id !== run.id)]);
+  }, RUN_SAVE_INTERVAL_MS)).current;
+
+  const getCurrentRunSnapshot = (): WorkflowRun | null => currentRun && {
+    ...currentRun,
+    updatedAt: Date.now(),
+    goal: agentState.goal,
+    files,
+    steps: workflowSteps,
+    provider: providerConfig.provider,
+    model: activeModel,
+    settings: workflowSettings,
+    chat,
+    planUsage,
+    followUpUsage,
+    budget,
+  };
 
-    executeNextStep();
-  }, [workflowSteps, agentState.isExecuting, files]);
+  // Auto-save the current run whenever its inputs or results change
+  useEffect(() => {
+    const run = getCurrentRunSnapshot();
+    if (run) persistRun(run);
+  }, [currentRun, workflowSteps, files, agentState.goal, workflowSettings, chat, planUsage, followUpUsage, budget, persistRun]);
+
+  // Don't lose the last few hundred milliseconds of output on refresh
+  useEffect(() => {
+    const flush = () => persistRun.flush();
+    window.addEventListener('beforeunload', flush);
+    return () => window.removeEventListener('beforeunload', flush);
+  }, [persistRun]);
+
+  // Helper to add what one plan request used to the earlier ones; onUsage reports running totals
+  const trackPlanUsage = (previous: ModelUsage | undefined) => (usage: ModelUsage) => setPlanUsage(addUsage(previous, usage));
+
+  // Helper for the budget of a plan request or follow-up answer, given what the run already spent
+  const getBudgetGuard = (spent: (ModelUsage | undefined)[]) => {
+    const limits = budgetRef.current;
+    return limits.maxTokens || limits.maxCost ? createBudgetGuard(limits, pricesRef.current || {}, spent) : undefined;
+  };
 
   const handleCreateWorkflow = async () => {
-    if (files.length === 0) return;
+    if (files.length === 0 || isKeyMissing) return;
     
-    setAgentState(prev => ({ ...prev, isAnalyzing: true }));
+    // Snapshot the goal so every step (and any resume) runs with the same intent
+    const goal = goalInput.trim();
+    const template = templates.find(t => t.id === selectedTemplateId);
+    goalRef.current = goal;
+    setAgentState(prev => ({ ...prev, goal, isAnalyzing: true, isReviewing: false, isPaused: false }));
     setError(null);
-    setWorkflowSteps([]);
+    commitSteps(() => []);
+    chatAbortRef.current?.abort();
+    setChat([]);
+    setPlanUsage(undefined);
+    setFollowUpUsage(undefined);
+    persistRun.flush();
+    setCurrentRun({ id: generateId(), name: getRunName(goal || template?.name || '', files), createdAt: Date.now() });
 
     try {
-      const planStrings = await generateWorkflowPlan(files);
-      
-      const newSteps: WorkflowStep[] = planStrings.map(desc => ({
-        id: Math.random().toString(36).substring(2, 9),
-        description: desc,
-        status: StepStatus.PENDING
-      }));
-
-      setWorkflowSteps(newSteps);
+      const plan = template
+        ? applyTemplate(template, templateValues)
+        : await generateWorkflowPlan(files, {
+            goal,
+            onContextPrepared: recordCoverage,
+            onUsage: trackPlanUsage(undefined),
+            budget: getBudgetGuard([]),
+            settings: workflowSettings,
+          });
+      commitSteps(() => toPendingSteps(plan));
+
+      if (reviewBeforeRun) {
+        setAgentState(prev => ({ ...prev, isAnalyzing: false, isReviewing: true }));
+        return;
+      }
+
+      setAgentState(prev => ({ ...prev, isAnalyzing: false }));
       // Automatically start executing
-      setAgentState(prev => ({ ...prev, isAnalyzing: false, isExecuting: true }));
+      runner.start();
+
+    } catch (err) {
+      console.error(err);
+      setError(describePlanError(err, "Failed to generate a workflow. Please check your API key or try again."));
+      setAgentState(prev => ({ ...prev, isAnalyzing: false }));
+    }
+  };
+
+  const handleRegeneratePlan = async (feedback: string) => {
+    setAgentState(prev => ({ ...prev, isAnalyzing: true }));
+    setError(null);
 
+    try {
+      const plan = await generateWorkflowPlan(files, {
+        goal: goalRef.current,
+        previousPlan: stepsRef.current.map(s => s.description),
+        feedback,
+        onContextPrepared: recordCoverage,
+        onUsage: trackPlanUsage(planUsage),
+        budget: getBudgetGuard(getRunUsages({ steps: stepsRef.current, planUsage, chat, followUpUsage })),
+        settings: workflowSettings,
+      });
+      commitSteps(() => toPendingSteps(plan));
     } catch (err) {
       console.error(err);
-      setError("Failed to generate a workflow. Please check your API key or try again.");
+      setError(describePlanError(err, "Failed to regenerate the workflow. Please try again."));
+    } finally {
       setAgentState(prev => ({ ...prev, isAnalyzing: false }));
     }
   };
 
+  const handleRunReviewedPlan = () => {
+    commitSteps(prev => prev.map(s => ({ ...s, description: s.description.trim() })));
+    setAgentState(prev => ({ ...prev, isReviewing: false }));
+    runner.start();
+  };
+
+  const handleOpenRun = async (id: string) => {
+    if (runner.isRunning()) return;
+    try {
+      const run = await getRun(id);
+      if (!run) return;
+
+      persistRun.flush();
+      chatAbortRef.current?.abort();
+      const steps = restoreInterruptedSteps(run.steps);
+      commitSteps(() => steps);
+      setChat(run.chat || []);
+      setFiles(run.files);
+      setFileCoverage({});
+      setGoalInput(run.goal);
+      goalRef.current = run.goal;
+      setWorkflowSettings(run.settings || {});
+      setPlanUsage(run.planUsage);
+      setFollowUpUsage(run.followUpUsage);
+      setBudget(run.budget || {});
+      setAgentState({
+        ...INITIAL_AGENT_STATE,
+        goal: run.goal,
+        // Offer Resume when the run was interrupted before finishing
+        isPaused: steps.some(s => s.status === StepStatus.PENDING),
+      });
+      setCurrentRun({ id: run.id, name: run.name, createdAt: run.createdAt });
+      setError(null);
+      setIsHistoryOpen(false);
+    } catch (err) {
+      console.error("Failed to open run:", err);
+      setError("Failed to open the saved run.");
+    }
+  };
+
+  const handleRenameRun = async (id: string, name: string) => {
+    if (currentRun?.id === id) setCurrentRun(prev => prev && { ...prev, name });
+    const run = await getRun(id);
+    if (!run) return;
+    const renamed = { ...run, name };
+    await saveRun(renamed);
+    setRuns(prev => prev.map(r => r.id === id ? renamed : r));
+  };
+
+  const handleDuplicateRun = async (id: string) => {
+    persistRun.flush();
+    const run = await getRun(id);
+    if (!run) return;
+    const now = Date.now();
+    const copy: WorkflowRun = {
+      ...run,
+      id: generateId(),
+      name: `${run.name} (copy)`,
+      createdAt: now,
+      updatedAt: now,
+      steps: restoreInterruptedSteps(run.steps),
+    };
+    await saveRun(copy);
+    setRuns(prev => [copy, ...prev]);
+  };
+
+  const handleImportRun = async (file: File) => {
+    try {
+      const imported = parseRunBundle(await file.text());
+      const existing = runs.find(r => r.id === imported.id);
+      // Importing a run that is already here keeps both
+      const run: WorkflowRun = {
+        ...imported,
+        id: existing || !imported.id ? generateId() : imported.id,
+        name: existing ? `${imported.name} (imported)` : imported.name,
+        steps: restoreInterruptedSteps(imported.steps),
+      };
+      await saveRun(run);
+      setRuns(prev => [run, ...prev]);
+      await handleOpenRun(run.id);
+    } catch (err) {
+      console.error("Failed to import run:", err);
+      setError(err instanceof RunImportError ? `Import failed: ${err.message}` : "Failed to import the run.");
+      setIsHistoryOpen(false);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    const name = window.prompt("Template name:", currentRun?.name || '')?.trim();
+    if (!name) return;
+    const template = createTemplateFromSteps(generateId(), name, stepsRef.current, goalRef.current);
+    try {
+      await saveTemplate(template);
+      setTemplates(prev => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (err) {
+      console.error("Failed to save template:", err);
+      setError("Failed to save the template.");
+    }
+  };
+
+  const handleImportTemplates = async (file: File) => {
+    try {
+      const imported = parseTemplateBundle(await file.text());
+      const existingIds = new Set(templates.map(t => t.id));
+      // Imports never overwrite a template already in the library
+      const added = imported.map(t => ({ ...t, id: !t.id || existingIds.has(t.id) ? generateId() : t.id }));
+      await Promise.all(added.map(saveTemplate));
+      setTemplates(prev => [...prev, ...added].sort((a, b) => a.name.localeCompare(b.name)));
+      if (added.length === 1) setSelectedTemplateId(added[0].id);
+    } catch (err) {
+      console.error("Failed to import templates:", err);
+      setError(err instanceof TemplateImportError ? `Import failed: ${err.message}` : "Failed to import templates.");
+    }
+  };
+
+  const handleExportTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+    const fileName = template.name.replace(/[^\w.-]+/g, '_').slice(0, 60) || 'template';
+    downloadFile(`${fileName}.template.json`, createTemplateBundle([template]), 'application/json');
+  };
+
+  const handleDeleteTemplate = async (id: string) => {
+    if (!window.confirm("Delete this template?")) return;
+    await deleteTemplate(id);
+    setTemplates(prev => prev.filter(t => t.id !== id));
+    if (selectedTemplateId === id) setSelectedTemplateId(null);
+  };
+
+  const handleDeleteRun = async (id: string) => {
+    if (!window.confirm("Delete this run from history?")) return;
+    if (currentRun?.id === id) {
+      persistRun.cancel();
+      setCurrentRun(null);
+    }
+    await deleteRun(id);
+    setRuns(prev => prev.filter(r => r.id !== id));
+  };
+
+  const handleUnlockKeys = async (passphrase: string): Promise<ApiKeys> => {
+    const keys = await unlockKeys(passphrase);
+    setApiKeys(prev => ({ ...keys, ...prev }));
+    setKeysLocked(false);
+    return keys;
+  };
+
+  const handleSaveProviderSettings = async ({ settings, keys, storage, passphrase }: SettingsDialogSaveOptions) => {
+    if (storage === 'none') {
+      clearStoredKeys();
+    } else if (!(keysLocked && storage === 'encrypted' && !passphrase)) {
+      // Without a passphrase, still-locked encrypted keys are left as they are
+      await saveKeys(keys, storage === 'encrypted' ? passphrase : undefined);
+      setKeysLocked(false);
+    }
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+    setApiKeys(keys);
+    setKeyStorage(storage);
+    if (storage === 'none') setKeysLocked(false);
+  };
+
   const handleReset = () => {
+    runner.cancel();
+    persistRun.flush();
+    setCurrentRun(null);
     setFiles([]);
-    setWorkflowSteps([]);
-    setAgentState({ isAnalyzing: false, isExecuting: false, currentStepId: null });
+    setFileCoverage({});
+    setGoalInput('');
+    commitSteps(() => []);
+    chatAbortRef.current?.abort();
+    setChat([]);
+    setPlanUsage(undefined);
+    setFollowUpUsage(undefined);
+    setAgentState(INITIAL_AGENT_STATE);
+    setError(null);
+  };
+
+  const handlePause = () => runner.pause();
+  const handleStop = () => runner.stop();
+  const handleResume = () => runner.start();
+  const handleCancel = () => runner.cancel();
+  const handleRerunStep = useCallback((stepId: string) => {
     setError(null);
+    runnerRef.current?.rerunFrom(stepId);
+  }, []);
+
+  const handleAskFollowUp = async (question: string) => {
+    const asked: FollowUpMessage = { id: generateId(), role: 'user', content: question, createdAt: Date.now() };
+    const answerId = generateId();
+    const conversation = [...chat, asked];
+    const updateAnswer = (patch: Partial<FollowUpMessage>) =>
+      setChat(prev => prev.map(m => m.id === answerId ? { ...m, ...patch } : m));
+
+    let streamed = '';
+    const showStreamed = throttle(() => updateAnswer({ content: streamed }), STREAM_UPDATE_INTERVAL_MS);
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    setChat([...conversation, { id: answerId, role: 'assistant', content: '', createdAt: Date.now() }]);
+    setIsAnswering(true);
+
+    try {
+      const { content, thinking } = await answerFollowUp(files, stepsRef.current, conversation, {
+        goal: goalRef.current,
+        settings: workflowSettings,
+        signal: controller.signal,
+        onContextPrepared: recordCoverage,
+        // Answers are paid for out of the same budget as the steps
+        budget: getBudgetGuard(getRunUsages({ steps: stepsRef.current, planUsage, chat, followUpUsage })),
+        onUsage: usage => updateAnswer({ usage }),
+        onChunk: (chunk) => {
+          streamed += chunk;
+          showStreamed();
+        },
+        onRetry: () => {
+          streamed = '';
+          showStreamed();
+        },
+      });
+      showStreamed.cancel();
+      updateAnswer({ content, thinking: thinking || undefined });
+    } catch (err) {
+      showStreamed.cancel();
+      // Whatever arrived stays visible, but is never sent back to the model
+      const aborted = classifyError(err, controller.signal) === 'aborted';
+      if (!aborted) console.error("Follow-up failed:", err);
+      updateAnswer({ content: streamed, error: aborted ? 'Stopped.' : getErrorMessage(err) });
+    } finally {
+      if (chatAbortRef.current === controller) chatAbortRef.current = null;
+      setIsAnswering(false);
+    }
+  };
+
+  const handleStopFollowUp = () => chatAbortRef.current?.abort();
+
+  const handleClearChat = () => {
+    if (!window.confirm("Clear the follow-up chat? Steps added from it are kept.")) return;
+    // What the cleared answers used still counts towards the run and its budget
+    setFollowUpUsage(prev => chat.reduce((sum, m) => m.usage && !m.promotedStepId ? addUsage(sum, m.usage) : sum, prev));
+    setChat([]);
+  };
+
+  // The answer becomes a completed step after everything else, so it shows up
+  // in exports and history, and is redone when a step before it is rerun.
+  const handlePromoteAnswer = (messageId: string) => {
+    const index = chat.findIndex(m => m.id === messageId);
+    const answer = chat[index];
+    const question = chat[index - 1];
+    if (!answer || answer.promotedStepId || question?.role !== 'user') return;
+
+    const step: WorkflowStep = {
+      id: generateId(),
+      description: getFollowUpStepTitle(question.content),
+      instructions: question.content,
+      status: StepStatus.COMPLETED,
+      result: answer.content,
+      thinking: answer.thinking,
+      dependsOn: stepsRef.current.map(s => s.id),
+      startedAt: question.createdAt,
+      completedAt: Date.now(),
+      usage: answer.usage,
+    };
+    commitSteps(prev => [...prev, step]);
+    setChat(prev => prev.map(m => m.id === messageId ? { ...m, promotedStepId: step.id } : m));
   };
 
   const completedSteps = workflowSteps.filter(step => step.status === StepStatus.COMPLETED).length;
   const totalSteps = workflowSteps.length;
+  const stepNumbers = useMemo(() => new Map(workflowSteps.map((s, i) => [s.id, i])), [workflowSteps]);
   const progressPercentage = totalSteps > 0 ? (completedSteps / totalSteps) * 100 : 0;
 
   return (
@@ -117,6 +568,24 @@ export const App: React.FC = () => {
             </div>
         </div>
         <div className="flex gap-2">
+            <RunExportMenu
+                getRun={getCurrentRunSnapshot}
+                prices={providerSettings.prices}
+                disabled={!currentRun || workflowSteps.length === 0}
+            />
+            <button
+                onClick={() => setIsProviderDialogOpen(true)}
+                title={`${PROVIDER_LABELS[providerConfig.provider]} · ${providerConfig.model}`}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 transition-colors text-sm font-medium"
+            >
+                <KeyRound className="w-4 h-4" /> Settings
+            </button>
+            <button
+                onClick={() => setIsHistoryOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 transition-colors text-sm font-medium"
+            >
+                <History className="w-4 h-4" /> History
+            </button>
             <button 
                 onClick={handleReset}
                 className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 transition-colors text-sm font-medium"
@@ -140,16 +609,145 @@ export const App: React.FC = () => {
             <FileUpload 
                 files={files} 
                 setFiles={setFiles} 
+                coverage={fileCoverage}
                 disabled={agentState.isAnalyzing || agentState.isExecuting} 
             />
 
             <div className="mt-6">
+                <label htmlFor="goal" className="block text-sm font-medium text-slate-300 mb-2">
+                    Goal / Instructions <span className="text-slate-500 font-normal">(optional)</span>
+                </label>
+                <textarea
+                    id="goal"
+                    value={goalInput}
+                    onChange={(e) => setGoalInput(e.target.value)}
+                    disabled={agentState.isAnalyzing || agentState.isExecuting}
+                    rows={3}
+                    placeholder='e.g. "Find the memory leak" or "Turn this spec into test cases"'
+                    className="w-full bg-slate-950/50 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500 resize-y disabled:opacity-50"
+                />
+                <label className="mt-2 flex items-center gap-2 text-sm text-slate-400 cursor-pointer select-none">
+                    <input
+                        type="checkbox"
+                        checked={reviewBeforeRun}
+                        onChange={(e) => setReviewBeforeRun(e.target.checked)}
+                        disabled={agentState.isAnalyzing || agentState.isExecuting}
+                        className="accent-blue-500"
+                    />
+                    Review plan before running
+                </label>
+                <TemplatePicker
+                    templates={templates}
+                    selectedId={selectedTemplateId}
+                    onSelect={(id) => {
+                        setSelectedTemplateId(id);
+                        setTemplateValues({});
+                    }}
+                    values={templateValues}
+                    onValuesChange={setTemplateValues}
+                    onSaveCurrent={workflowSteps.length > 0 ? handleSaveTemplate : undefined}
+                    onImport={handleImportTemplates}
+                    onExport={handleExportTemplate}
+                    onDelete={handleDeleteTemplate}
+                    disabled={agentState.isAnalyzing || agentState.isExecuting}
+                />
+                <label className="mt-2 flex items-center justify-between gap-2 text-sm text-slate-400">
+                    <span>Parallel steps</span>
+                    <input
+                        type="number"
+                        min={1}
+                        max={MAX_PARALLEL_STEPS}
+                        value={maxConcurrency}
+                        onChange={(e) => setMaxConcurrency(Math.min(MAX_PARALLEL_STEPS, Math.max(1, Number(e.target.value) || 1)))}
+                        title="How many independent steps may run at the same time"
+                        className="w-16 bg-slate-950/50 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+                    />
+                </label>
+                <label className="mt-2 flex items-center justify-between gap-2 text-sm text-slate-400">
+                    <span>Context window (tokens)</span>
+                    <input
+                        type="number"
+                        min={1024}
+                        step={1024}
+                        value={contextWindow}
+                        onChange={(e) => handleContextWindowChange(Math.max(1024, Number(e.target.value) || 1024))}
+                        disabled={agentState.isAnalyzing || agentState.isExecuting}
+                        title="Files and earlier results are truncated or summarized to fit this budget"
+                        className="w-28 bg-slate-950/50 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                    />
+                </label>
+                <label className="mt-2 flex items-center justify-between gap-2 text-sm text-slate-400">
+                    <span>Token budget</span>
+                    <input
+                        type="number"
+                        min={0}
+                        step={1000}
+                        value={budget.maxTokens ?? ''}
+                        onChange={(e) => setBudget(prev => ({ ...prev, maxTokens: Math.max(0, Math.round(Number(e.target.value))) || undefined }))}
+                        disabled={agentState.isExecuting}
+                        placeholder="No limit"
+                        title="Planning, steps and follow-up answers stop before their prompts and answers together would use more tokens than this"
+                        className="w-28 bg-slate-950/50 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                    />
+                </label>
+                <label className="mt-2 flex items-center justify-between gap-2 text-sm text-slate-400">
+                    <span>Cost budget (USD)</span>
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        value={budget.maxCost ?? ''}
+                        onChange={(e) => setBudget(prev => ({ ...prev, maxCost: Math.max(0, Number(e.target.value)) || undefined }))}
+                        disabled={agentState.isExecuting}
+                        placeholder="No limit"
+                        title="Uses the prices from Settings; models without a price count as free"
+                        className="w-28 bg-slate-950/50 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                    />
+                </label>
+                <button
+                    onClick={() => setIsSettingsOpen(prev => !prev)}
+                    className="mt-3 flex items-center gap-1.5 text-sm text-slate-400 hover:text-slate-200 transition-colors"
+                >
+                    {isSettingsOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    <SlidersHorizontal className="w-4 h-4" />
+                    Model settings
+                </button>
+                {isSettingsOpen && (
+                    <div className="mt-2 p-3 bg-slate-950/30 border border-slate-800 rounded-lg">
+                        <GenerationSettingsForm
+                            settings={workflowSettings}
+                            onChange={setWorkflowSettings}
+                            inherited={{ ...DEFAULT_GENERATION_SETTINGS, model: providerConfig.model }}
+                            disabled={agentState.isAnalyzing || agentState.isExecuting}
+                        />
+                        <p className="mt-2 text-[11px] text-slate-500">
+                            Steps can override these while reviewing the plan. Outputs cut off at the token limit are continued automatically.
+                        </p>
+                    </div>
+                )}
+            </div>
+
+            {isKeyMissing && (
+                <div className="mt-4 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-sm text-amber-300">
+                    {keysLocked
+                        ? 'Your saved API keys are locked.'
+                        : `No API key configured for ${PROVIDER_LABELS[providerConfig.provider]}.`}
+                    <button
+                        onClick={() => setIsProviderDialogOpen(true)}
+                        className="ml-2 underline hover:text-amber-200"
+                    >
+                        {keysLocked ? 'Unlock' : 'Open settings'}
+                    </button>
+                </div>
+            )}
+
+            <div className="mt-4">
                 <button
                     onClick={handleCreateWorkflow}
-                    disabled={files.length === 0 || agentState.isAnalyzing || agentState.isExecuting}
+                    disabled={files.length === 0 || isKeyMissing || agentState.isAnalyzing || agentState.isExecuting}
                     className={`
                         w-full py-3 px-4 rounded-xl flex items-center justify-center gap-2 font-semibold transition-all shadow-lg
-                        ${files.length === 0 
+                        ${files.length === 0 || isKeyMissing
                             ? 'bg-slate-800 text-slate-500 cursor-not-allowed' 
                             : agentState.isAnalyzing || agentState.isExecuting
                                 ? 'bg-blue-600/50 text-blue-100 cursor-wait'
@@ -169,12 +767,52 @@ export const App: React.FC = () => {
                     ) : (
                         <>
                             <Sparkles className="w-5 h-5" />
-                            Generate & Run Workflow
+                            {selectedTemplateId
+                                ? (reviewBeforeRun ? 'Load Template Plan' : 'Run Template')
+                                : reviewBeforeRun ? 'Generate Workflow Plan' : 'Generate & Run Workflow'}
                         </>
                     )}
                 </button>
 
-                {totalSteps > 0 && agentState.isExecuting && (
+                {(agentState.isExecuting || agentState.isPaused) && (
+                  <div className="mt-3 grid grid-cols-3 gap-2">
+                    {agentState.isExecuting ? (
+                      <button
+                        onClick={handlePause}
+                        disabled={agentState.pauseRequested}
+                        title="Pause after the current step finishes"
+                        className="flex items-center justify-center gap-1.5 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-wait text-sm font-medium transition-colors"
+                      >
+                        <Pause className="w-4 h-4" /> {agentState.pauseRequested ? 'Pausing...' : 'Pause'}
+                      </button>
+                    ) : (
+                      <button
+                        onClick={handleResume}
+                        title="Resume from the next pending step"
+                        className="flex items-center justify-center gap-1.5 py-2 rounded-lg bg-blue-600/20 text-blue-300 hover:bg-blue-600/30 border border-blue-500/30 text-sm font-medium transition-colors"
+                      >
+                        <Play className="w-4 h-4" /> Resume
+                      </button>
+                    )}
+                    <button
+                      onClick={handleStop}
+                      disabled={!agentState.isExecuting}
+                      title="Abort the current step now"
+                      className="flex items-center justify-center gap-1.5 py-2 rounded-lg bg-amber-600/20 text-amber-300 hover:bg-amber-600/30 border border-amber-500/30 disabled:opacity-40 disabled:cursor-not-allowed text-sm font-medium transition-colors"
+                    >
+                      <StopCircle className="w-4 h-4" /> Stop
+                    </button>
+                    <button
+                      onClick={handleCancel}
+                      title="Abort and skip all remaining steps"
+                      className="flex items-center justify-center gap-1.5 py-2 rounded-lg bg-red-600/20 text-red-300 hover:bg-red-600/30 border border-red-500/30 text-sm font-medium transition-colors"
+                    >
+                      <XCircle className="w-4 h-4" /> Cancel
+                    </button>
+                  </div>
+                )}
+
+                {totalSteps > 0 && (agentState.isExecuting || agentState.isPaused) && (
                   <div className="mt-4">
                     <div className="flex justify-between items-center mb-1 text-sm text-slate-400">
                       <span>Progress</span>
@@ -203,7 +841,7 @@ export const App: React.FC = () => {
                  <li>Upload code files (py, c, cpp) or docs.</li>
                  <li>The Agent reads the content.</li>
                  <li>Agent plans a custom workflow.</li>
-                 <li>Agent executes steps one-by-one.</li>
+                 <li>Agent executes steps as their inputs become ready, in parallel where possible.</li>
              </ol>
           </div>
         </section>
@@ -211,11 +849,65 @@ export const App: React.FC = () => {
         {/* Right Panel: Agent Workflow */}
         <section className="lg:col-span-8 h-[600px] lg:h-auto min-h-[500px] flex flex-col">
             <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 h-full backdrop-blur-sm overflow-y-auto custom-scrollbar flex flex-col">
-                <WorkflowList steps={workflowSteps} />
+                <WorkflowList
+                    steps={workflowSteps}
+                    goal={agentState.goal}
+                    isReviewing={agentState.isReviewing}
+                    isRegenerating={agentState.isAnalyzing}
+                    onStepsChange={(steps) => commitSteps(() => steps)}
+                    onRun={handleRunReviewedPlan}
+                    onRegenerate={handleRegeneratePlan}
+                    canRerun={!agentState.isExecuting && !agentState.isAnalyzing}
+                    onRerunStep={handleRerunStep}
+                    files={files}
+                    workflowSettings={workflowSettings}
+                    planUsage={planUsage}
+                    followUpUsages={followUpUsages}
+                    budget={budget}
+                    prices={providerSettings.prices || {}}
+                />
+                {!agentState.isReviewing && completedSteps > 0 && (
+                    <FollowUpChat
+                        messages={chat}
+                        isAnswering={isAnswering}
+                        onAsk={handleAskFollowUp}
+                        onStop={handleStopFollowUp}
+                        onPromote={handlePromoteAnswer}
+                        onClear={handleClearChat}
+                        stepNumbers={stepNumbers}
+                        disabled={agentState.isExecuting || agentState.isAnalyzing || isKeyMissing}
+                    />
+                )}
             </div>
         </section>
 
       </main>
+
+      {isHistoryOpen && (
+        <RunHistory
+          runs={runs}
+          currentRunId={currentRun?.id ?? null}
+          disabled={agentState.isAnalyzing || agentState.isExecuting}
+          onOpen={handleOpenRun}
+          onRename={handleRenameRun}
+          onDuplicate={handleDuplicateRun}
+          onImport={handleImportRun}
+          onDelete={handleDeleteRun}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {isProviderDialogOpen && (
+        <SettingsDialog
+          settings={providerSettings}
+          keys={apiKeys}
+          storage={keyStorage}
+          locked={keysLocked}
+          onUnlock={handleUnlockKeys}
+          onSave={handleSaveProviderSettings}
+          onClose={() => setIsProviderDialogOpen(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { FileWithPath } from '../utils/folderUpload';
+import { getMimeType } from '../utils/fileUtils';
+
+const toFile = async (absolutePath: string): Promise<File> =>
+  new File([await readFile(absolutePath)], path.basename(absolutePath), { type: getMimeType(absolutePath) });
+
+const walk = async (dir: string, root: string, isIgnored: (path: string) => boolean): Promise<FileWithPath[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(entries.map(async entry => {
+    const absolutePath = path.join(dir, entry.name);
+    const relativePath = path.relative(root, absolutePath).split(path.sep).join('/');
+    // Pruned here so e.g. node_modules is never read into memory
+    if (entry.isDirectory()) return isIgnored(`${relativePath}/`) ? [] : walk(absolutePath, root, isIgnored);
+    if (!entry.isFile()) return [];
+    return [{ file: await toFile(absolutePath), path: relativePath }];
+  }));
+  return nested.flat();
+};
+
+/**
+ * The files at the given paths, like a browser upload: a folder keeps its
+ * name as the first path segment, a single file is just its name. Ignored
+ * folders are skipped; files are filtered later by ingestFiles.
+ */
+export const collectInputFiles = async (inputPaths: string[], isIgnored: (path: string) => boolean): Promise<FileWithPath[]> => {
+  const collected = await Promise.all(inputPaths.map(async inputPath => {
+    const absolutePath = path.resolve(inputPath);
+    const info = await stat(absolutePath);
+    if (info.isDirectory()) return walk(absolutePath, path.dirname(absolutePath), isIgnored);
+    return [{ file: await toFile(absolutePath), path: path.basename(absolutePath) }];
+  }));
+  return collected.flat();
+};
@@ -0,0 +1,61 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { StepStatus, WorkflowRun } from '../types';
+import { extractCodeFiles, getExtension } from '../utils/codeOutput';
+import { createReportDocxBlob } from '../utils/markdownToDocx';
+import { createRunBundle } from '../utils/runExport';
+
+const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'step';
+
+// Model-given paths are relative; never let "../" or an absolute path escape the output folder
+const toSafePath = (filePath: string): string =>
+  filePath.replace(/\\/g, '/').split('/').filter(part => part && part !== '.' && part !== '..').join('/');
+
+const write = async (outDir: string, relativePath: string, content: string | Uint8Array): Promise<string> => {
+  const target = path.join(outDir, relativePath);
+  await mkdir(path.dirname(target), { recursive: true });
+  await writeFile(target, content);
+  return relativePath;
+};
+
+/**
+ * Writes a finished run to `outDir` and returns the paths written, relative
+ * to it:
+ *   steps/NN-title.md   result of every completed step
+ *   code/...            code blocks, at the path the model gave them or per step
+ *   report.docx         the completed steps as one document
+ *   run.json            the run bundle, importable into the app
+ */
+export const writeRunOutputs = async (run: WorkflowRun, outDir: string): Promise<string[]> => {
+  const written: string[] = [];
+  const completed = run.steps
+    .map((step, i) => ({ step, number: String(i + 1).padStart(2, '0') }))
+    .filter(({ step }) => step.status === StepStatus.COMPLETED && step.result);
+
+  for (const { step, number } of completed) {
+    const result = step.result as string;
+    written.push(await write(outDir, `steps/${number}-${slugify(step.description)}.md`, `# ${step.description}\n\n${result}\n`));
+
+    // Later blocks for the same path replace earlier ones, as in the app
+    const codeFiles = new Map<string, string>();
+    extractCodeFiles(result).forEach((file, i) => {
+      const filePath = file.path && toSafePath(file.path);
+      codeFiles.set(filePath || `step-${number}/block-${i + 1}.${getExtension(file.language)}`, file.code);
+    });
+    for (const [filePath, code] of codeFiles) {
+      written.push(await write(outDir, `code/${filePath}`, code));
+    }
+  }
+
+  if (completed.length > 0) {
+    const blob = await createReportDocxBlob(
+      completed.map(({ step }) => ({ title: step.description, markdown: step.result as string })),
+      { title: 'Agent Workflow Report', subtitle: run.goal }
+    );
+    written.push(await write(outDir, 'report.docx', new Uint8Array(await blob.arrayBuffer())));
+  }
+
+  written.push(await write(outDir, 'run.json', createRunBundle(run)));
+  return written;
+};
@@ -0,0 +1,27 @@
+import { createRequire } from 'node:module';
+import { extractTextFromPdfDocument } from '../utils/extractors/pdf';
+
+type PdfJs = typeof import('pdfjs-dist');
+
+let pdfjsLib: PdfJs | null = null;
+
+// Only the legacy build runs in Node, and it is CommonJS. Loaded on first use:
+// it logs warnings about missing canvas support when it loads.
+const loadPdfJs = (): PdfJs => {
+  pdfjsLib ??= createRequire(import.meta.url)('pdfjs-dist/legacy/build/pdf.js') as PdfJs;
+  return pdfjsLib;
+};
+
+/**
+ * PDF text in Node. There is no canvas, so scanned pages without a text
+ * layer come out empty instead of being OCR'd.
+ */
+export const extractTextFromPDF = async (data: ArrayBuffer): Promise<string> => {
+  // Without a worker source pdfjs parses on the main thread; verbosity 0 silences its warnings
+  const pdf = await loadPdfJs().getDocument({ data: new Uint8Array(data), verbosity: 0 }).promise;
+  try {
+    return await extractTextFromPdfDocument(pdf);
+  } finally {
+    await pdf.destroy();
+  }
+};
@@ -0,0 +1,107 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { StepStatus } from '../types';
+import { parseRunBundle } from '../utils/runExport';
+
+// Runs the CLI from source with its build config, so the tests need no `npm run build:cli`
+const VITE_NODE = path.resolve('node_modules/vite-node/vite-node.mjs');
+
+interface CliResult {
+  code: number | null;
+  stderr: string;
+  events: { event: string; [key: string]: unknown }[];
+}
+
+// Helper to run the CLI without the developer's API keys or provider settings
+const runCli = (args: string[], env: Record<string, string> = {}): Promise<CliResult> =>
+  new Promise(resolve => {
+    execFile(
+      process.execPath,
+      [VITE_NODE, '--config', 'vite.cli.config.ts', 'cli/workflow.ts', ...args],
+      { env: { PATH: process.env.PATH, HOME: tmpdir(), ...env }, timeout: 60_000 },
+      (error, stdout, stderr) => resolve({
+        code: error ? (typeof error.code === 'number' ? error.code : null) : 0,
+        stderr,
+        events: stdout.split('\n').filter(line => line.startsWith('{')).map(line => JSON.parse(line)),
+      })
+    );
+  });
+
+let dir: string;
+let input: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'workflow-cli-'));
+  input = path.join(dir, 'main.py');
+  await writeFile(input, 'print("hello")\n');
+});
+
+afterAll(() => rm(dir, { recursive: true, force: true }));
+
+// Every test starts the CLI, which takes a few seconds before it does anything
+describe('workflow CLI', { timeout: 60_000 }, () => {
+  it('prints the usage with --help', async () => {
+    const { code, events } = await runCli(['--help']);
+
+    expect(code).toBe(0);
+    expect(events).toEqual([]);
+  });
+
+  it.each([
+    [['--provider', 'mock'], 'No input files given.'],
+    [['--provider', 'mock', '--concurrency', '0', 'main.py'], '--concurrency must be a positive whole number.'],
+    [['--provider', 'mock', '--max-cost', '1', 'main.py'], '--max-cost needs --prices.'],
+    [['--provider', 'nope', 'main.py'], 'Unknown provider "nope"'],
+    [['--provider', 'mock', '--unknown', 'main.py'], "Unknown option '--unknown'"],
+  ])('exits with 2 for invalid arguments: %j', async (args, message) => {
+    const { code, stderr, events } = await runCli(args);
+
+    expect(code).toBe(2);
+    expect(stderr).toContain(message);
+    expect(events).toEqual([expect.objectContaining({ event: 'error' })]);
+  });
+
+  it('exits with 2 and names the key variables when the API key is missing', async () => {
+    const { code, stderr } = await runCli(['--provider', 'gemini', input]);
+
+    expect(code).toBe(2);
+    expect(stderr).toContain('Set LLM_API_KEY or GEMINI_API_KEY in the environment.');
+  });
+
+  it('exits with 2 when an input is missing', async () => {
+    const { code, stderr } = await runCli(['--provider', 'mock', path.join(dir, 'missing.py')]);
+
+    expect(code).toBe(2);
+    expect(stderr).toContain('Cannot read the input files');
+  });
+
+  it('runs the workflow and writes the outputs', async () => {
+    const out = path.join(dir, 'out');
+
+    const { code, events } = await runCli(['--provider', 'mock', '--goal', 'Explain it', '--out', out, input]);
+
+    expect(code).toBe(0);
+    expect(events.map(e => e.event)).toEqual(['files', 'plan', ...Array(6).fill('step'), 'done']);
+    expect(events.at(-1)).toMatchObject({ status: 'completed', steps: { COMPLETED: 3 }, outDir: out });
+
+    expect((await readdir(out)).sort()).toEqual(['report.docx', 'run.json', 'steps']);
+    expect(await readdir(path.join(out, 'steps'))).toHaveLength(3);
+    const run = parseRunBundle(await readFile(path.join(out, 'run.json'), 'utf8'));
+    expect(run.goal).toBe('Explain it');
+    expect(run.steps.map(s => s.status)).toEqual([StepStatus.COMPLETED, StepStatus.COMPLETED, StepStatus.COMPLETED]);
+  });
+
+  it('stops the run at --max-tokens, counting the plan', async () => {
+    const { code, events } = await runCli(['--provider', 'mock', '--max-tokens', '700', '--out', path.join(dir, 'budget'), input]);
+
+    expect(code).toBe(1);
+    const failed = events.find(e => e.event === 'step' && e.status === 'FAILED');
+    const done = events.at(-1) as { event: string; status: string; usage: { promptTokens: number; completionTokens: number } };
+    expect(done).toMatchObject({ event: 'done', status: 'failed' });
+    const planned = done.usage.promptTokens + done.usage.completionTokens;
+    expect(failed?.error).toContain(`Token budget reached: ${planned} of 700 tokens used`);
+  });
+});
@@ -0,0 +1,315 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { DOMParser } from '@xmldom/xmldom';
+import { GenerationSettings, ModelUsage, PlannedStep, PriceTable, RunBudget, StepStatus, UploadedFile, WorkflowRun, WorkflowStep } from '../types';
+import { configureProvider, generateWorkflowPlan, getProvider, MissingApiKeyError } from '../services/geminiService';
+import { API_KEY_ENV_VARS, PROVIDER_IDS, ProviderId, resolveProviderConfig } from '../services/providers';
+import { setDefaultContextWindow } from '../services/contextBudget';
+import { createWorkflowRunner } from '../services/workflowRunner';
+import { toPendingSteps } from '../services/workflowGraph';
+import { getErrorMessage } from '../services/errors';
+import { createBudgetGuard, parsePriceTable, PriceTableError, summarizeUsage } from '../services/usage';
+import { applyTemplate, parseTemplateBundle, TemplateImportError } from '../utils/templates';
+import { createIgnoreMatcher, DEFAULT_IGNORE_PATTERNS } from '../utils/fileTree';
+import { IngestFailure, ingestFiles } from '../utils/fileIngest';
+import { generateId } from '../utils/fileUtils';
+import { collectInputFiles } from './inputs';
+import { extractTextFromPDF } from './pdf';
+import { writeRunOutputs } from './outputs';
+
+const EXIT_OK = 0;
+/** A step failed, the run was cancelled, or planning failed. */
+const EXIT_FAILED = 1;
+/** Bad arguments, unreadable inputs or a missing API key. */
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: workflow [options] <file or folder>...
+
+Plans a workflow for the input files and runs it without the browser.
+Progress is printed to stdout as one JSON object per line; logs go to stderr.
+
+Options:
+  -g, --goal <text>          What the workflow should achieve
+  -t, --template <file>      Run a template exported from the app instead of planning
+      --template-name <name> Template to use when the file holds several
+      --var <name=value>     Value for a template {{variable}} (repeatable)
+  -o, --out <dir>            Output folder (default: workflow-output)
+      --provider <id>        ${PROVIDER_IDS.join(' | ')} (default: LLM_PROVIDER)
+      --model <id>           Model id (default: LLM_MODEL or the provider default)
+      --base-url <url>       OpenAI-compatible endpoint (default: LLM_BASE_URL)
+      --settings <file>      JSON file with workflow generation settings
+      --concurrency <n>      Independent steps to run at once (default: 1)
+      --context-tokens <n>   Context window of the model (default: LLM_CONTEXT_TOKENS)
+      --ignore <pattern>     Extra .gitignore-style pattern to skip (repeatable)
+      --prices <file>        Model prices, one "<model> <input> <output>" line each, USD per 1M tokens
+      --max-tokens <n>       Stop the run before it uses more tokens than this
+      --max-cost <usd>       Stop the run before it costs more than this (needs --prices)
+  -h, --help                 Show this help
+
+API keys are read from LLM_API_KEY, GEMINI_API_KEY, OPENAI_API_KEY or HF_TOKEN.
+Exit codes: 0 all steps completed, 1 a step or the plan failed, 2 invalid input.`;
+
+/**
+ * Thrown for invalid arguments; the message is shown with exit code 2.
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// Helper to print one progress event; stdout carries nothing else
+const emit = (event: string, data: Record<string, unknown> = {}) => {
+  process.stdout.write(`${JSON.stringify({ event, time: Date.now(), ...data })}\n`);
+};
+
+const parsePositiveInt = (value: string | undefined, option: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) throw new UsageError(`--${option} must be a positive whole number.`);
+  return parsed;
+};
+
+const parsePositiveNumber = (value: string | undefined, option: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) throw new UsageError(`--${option} must be a positive number.`);
+  return parsed;
+};
+
+const parseVariables = (pairs: string[] = []): Record<string, string> =>
+  Object.fromEntries(pairs.map(pair => {
+    const index = pair.indexOf('=');
+    if (index < 1) throw new UsageError(`--var expects name=value, got "${pair}".`);
+    return [pair.slice(0, index).trim(), pair.slice(index + 1)];
+  }));
+
+const readSettings = async (file: string | undefined): Promise<GenerationSettings> => {
+  if (!file) return {};
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    throw new UsageError(`Cannot read settings from ${file}: ${getErrorMessage(error)}`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) throw new UsageError(`${file} must contain a JSON object.`);
+  return data as GenerationSettings;
+};
+
+const readPrices = async (file: string | undefined): Promise<PriceTable> => {
+  if (!file) return {};
+  try {
+    return parsePriceTable(await readFile(file, 'utf8'));
+  } catch (error) {
+    const message = error instanceof PriceTableError ? error.issues.join('; ') : getErrorMessage(error);
+    throw new UsageError(`Cannot read prices from ${file}: ${message}`);
+  }
+};
+
+const readTemplatePlan = async (file: string, name: string | undefined, variables: Record<string, string>): Promise<{ name: string; plan: PlannedStep[] }> => {
+  let text: string;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch (error) {
+    throw new UsageError(`Cannot read the template ${file}: ${getErrorMessage(error)}`);
+  }
+  const templates = parseTemplateBundle(text);
+  const matches = name ? templates.filter(t => t.name === name) : templates;
+  if (matches.length !== 1) {
+    const names = templates.map(t => `"${t.name}"`).join(', ');
+    throw new UsageError(name
+      ? `No template named "${name}" in ${file} (found ${names}).`
+      : `${file} holds several templates; pick one with --template-name (${names}).`);
+  }
+  return { name: matches[0].name, plan: applyTemplate(matches[0], variables) };
+};
+
+const run = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      goal: { type: 'string', short: 'g' },
+      template: { type: 'string', short: 't' },
+      'template-name': { type: 'string' },
+      var: { type: 'string', multiple: true },
+      out: { type: 'string', short: 'o', default: 'workflow-output' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      'base-url': { type: 'string' },
+      settings: { type: 'string' },
+      concurrency: { type: 'string' },
+      'context-tokens': { type: 'string' },
+      ignore: { type: 'string', multiple: true },
+      prices: { type: 'string' },
+      'max-tokens': { type: 'string' },
+      'max-cost': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return EXIT_OK;
+  }
+  if (positionals.length === 0) throw new UsageError('No input files given.');
+  if (values.provider && !(PROVIDER_IDS as string[]).includes(values.provider)) {
+    throw new UsageError(`Unknown provider "${values.provider}"; use one of ${PROVIDER_IDS.join(', ')}.`);
+  }
+
+  const goal = values.goal?.trim() || '';
+  const settings = await readSettings(values.settings);
+  const concurrency = parsePositiveInt(values.concurrency, 'concurrency') ?? 1;
+  const prices = await readPrices(values.prices);
+  const budget: RunBudget = {
+    maxTokens: parsePositiveInt(values['max-tokens'], 'max-tokens'),
+    maxCost: parsePositiveNumber(values['max-cost'], 'max-cost'),
+  };
+  if (budget.maxCost && !values.prices) throw new UsageError('--max-cost needs --prices.');
+  const template = values.template
+    ? await readTemplatePlan(values.template, values['template-name'], parseVariables(values.var))
+    : undefined;
+  setDefaultContextWindow(
+    parsePositiveInt(values['context-tokens'] ?? process.env.LLM_CONTEXT_TOKENS, 'context-tokens')
+  );
+
+  // The CLI reads the unprefixed variables; there is no settings dialog to override them
+  const providerConfig = resolveProviderConfig(process.env, {
+    provider: values.provider as ProviderId | undefined,
+    model: values.model,
+    baseUrl: values['base-url'],
+  }, {}, '');
+  configureProvider(providerConfig);
+  // Fails fast before any file is read
+  try {
+    getProvider();
+  } catch (error) {
+    if (!(error instanceof MissingApiKeyError)) throw error;
+    const names = ['LLM_API_KEY', API_KEY_ENV_VARS[error.provider]].filter(Boolean).join(' or ');
+    throw new UsageError(`${error.message} Set ${names} in the environment.`);
+  }
+
+  const ignorePatterns = [DEFAULT_IGNORE_PATTERNS, ...(values.ignore || [])].join('\n');
+  let files: UploadedFile[];
+  let failed: IngestFailure[];
+  try {
+    const picked = await collectInputFiles(positionals, createIgnoreMatcher(ignorePatterns));
+    ({ files, failed } = await ingestFiles(picked, ignorePatterns, { pdf: extractTextFromPDF }));
+  } catch (error) {
+    throw new UsageError(`Cannot read the input files: ${getErrorMessage(error)}`);
+  }
+  failed.forEach(f => console.error(`Skipped ${f.path}: ${f.reason}`));
+  if (files.length === 0) {
+    throw new UsageError(failed.length > 0 ? 'None of the input files could be read.' : 'Every input file was ignored.');
+  }
+  emit('files', { files: files.map(f => ({ path: f.path || f.name, size: f.size, category: f.category })), failed });
+
+  let plan: PlannedStep[];
+  let planUsage: ModelUsage | undefined;
+  try {
+    plan = template?.plan ?? await generateWorkflowPlan(files, {
+      goal,
+      settings,
+      budget: budget.maxTokens || budget.maxCost ? createBudgetGuard(budget, prices, []) : undefined,
+      onUsage: usage => { planUsage = usage; },
+    });
+  } catch (error) {
+    emit('error', { stage: 'plan', message: getErrorMessage(error) });
+    return EXIT_FAILED;
+  }
+  emit('plan', {
+    template: template?.name,
+    steps: plan.map(step => ({ id: step.id, title: step.title, outputType: step.outputType, dependsOn: step.dependsOn })),
+  });
+
+  let steps: WorkflowStep[] = toPendingSteps(plan);
+  const updateStep = (stepId: string, patch: Partial<WorkflowStep>) => {
+    const previous = steps.find(s => s.id === stepId);
+    steps = steps.map(s => s.id === stepId ? { ...s, ...patch } : s);
+    const step = steps.find(s => s.id === stepId);
+    if (!previous || !step) return;
+
+    if (patch.status && patch.status !== previous.status) {
+      emit('step', { id: step.id, title: step.description, status: step.status, error: step.error, usage: step.completedAt ? step.usage : undefined });
+    } else if (patch.attempts && patch.attempts > (previous.attempts ?? 1)) {
+      emit('retry', { id: step.id, attempt: patch.attempts });
+    }
+  };
+
+  const runner = createWorkflowRunner({
+    getSteps: () => steps,
+    getFiles: () => files,
+    getGoal: () => goal,
+    getSettings: () => settings,
+    updateStep,
+    onStateChange: () => {},
+    getMaxConcurrency: () => concurrency,
+    getBudget: () => budget,
+    getPrices: () => prices,
+    getOtherUsage: () => [planUsage],
+    // Nobody watches the partial output, so don't split the result into updates
+    streamUpdateIntervalMs: 60_000,
+  });
+
+  // First Ctrl+C cancels and still writes what finished; a second one quits
+  let cancelled = false;
+  const onInterrupt = () => {
+    if (cancelled) process.exit(130);
+    cancelled = true;
+    emit('cancelling');
+    runner.cancel();
+  };
+  process.on('SIGINT', onInterrupt);
+  const startedAt = Date.now();
+  try {
+    await runner.start();
+  } finally {
+    process.off('SIGINT', onInterrupt);
+  }
+
+  const now = Date.now();
+  const workflowRun: WorkflowRun = {
+    id: generateId(),
+    name: goal || template?.name || 'Workflow run',
+    createdAt: startedAt,
+    updatedAt: now,
+    goal,
+    files,
+    steps,
+    provider: providerConfig.provider,
+    model: settings.model || providerConfig.model,
+    settings,
+    planUsage,
+    budget: budget.maxTokens || budget.maxCost ? budget : undefined,
+  };
+  const outDir = path.resolve(values.out as string);
+  const outputs = await writeRunOutputs(workflowRun, outDir);
+
+  const counts = Object.fromEntries(Object.values(StepStatus).map(status => [status, steps.filter(s => s.status === status).length]));
+  const succeeded = steps.every(s => s.status === StepStatus.COMPLETED);
+  const usage = summarizeUsage([planUsage, ...steps.map(s => s.usage)], prices);
+  emit('done', { status: succeeded ? 'completed' : cancelled ? 'cancelled' : 'failed', steps: counts, usage, outDir, outputs });
+  return succeeded ? EXIT_OK : EXIT_FAILED;
+};
+
+const main = async () => {
+  // Office extractors parse XML with the browser's DOMParser
+  globalThis.DOMParser ??= DOMParser as unknown as typeof globalThis.DOMParser;
+  // Libraries log to stdout; keep it for the JSON progress events
+  console.log = console.info = console.warn = console.debug = (...args: unknown[]) => console.error(...args);
+
+  try {
+    process.exitCode = await run(process.argv.slice(2));
+  } catch (error) {
+    const isUsage = error instanceof UsageError || error instanceof TemplateImportError || error instanceof MissingApiKeyError
+      || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS');
+    emit('error', { message: getErrorMessage(error) });
+    if (isUsage) process.stderr.write(`${getErrorMessage(error)}\nRun "workflow --help" for usage.\n`);
+    else console.error(error);
+    process.exitCode = isUsage ? EXIT_USAGE : EXIT_FAILED;
+  }
+};
+
+main();
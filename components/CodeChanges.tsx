@@ -0,0 +1,238 @@
+import React, { useMemo, useState } from 'react';
+import { Check, X, Download, FileArchive, FileDiff, Columns, Rows, FilePlus, FileCode } from 'lucide-react';
+import { UploadedFile } from '../types';
+import { CodeFile, findOriginalFile } from '../utils/codeOutput';
+import { applyHunks, computeHunks, createFilePatch, DiffHunk, DiffLine } from '../utils/diff';
+import { createZipBlob } from '../utils/fileUtils';
+import { downloadFile } from '../utils/download';
+import { getFilePath } from '../utils/fileTree';
+
+interface CodeChangesProps {
+  codeFiles: CodeFile[];
+  files: UploadedFile[];
+}
+
+interface FileChange {
+  path: string;
+  /** Null when the model created a new file. */
+  original: string | null;
+  hunks: DiffHunk[];
+}
+
+type ViewMode = 'unified' | 'split';
+
+const getTextContent = (file?: UploadedFile): string | null =>
+  file && typeof file.content === 'string' && !file.content.startsWith('data:') ? file.content : null;
+
+const stripNewline = (text: string) => text.replace(/\n$/, '');
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  context: 'text-slate-400',
+  add: 'bg-emerald-900/30 text-emerald-200',
+  remove: 'bg-red-900/30 text-red-200',
+};
+
+const renderUnified = (hunk: DiffHunk) => {
+  let oldLine = hunk.oldStart;
+  let newLine = hunk.newStart;
+  return hunk.lines.map((line, i) => {
+    const oldNo = line.type !== 'add' ? oldLine++ : '';
+    const newNo = line.type !== 'remove' ? newLine++ : '';
+    return (
+      <div key={i} className={`flex ${LINE_STYLES[line.type]}`}>
+        <span className="w-10 shrink-0 text-right pr-2 text-slate-600 select-none">{oldNo}</span>
+        <span className="w-10 shrink-0 text-right pr-2 text-slate-600 select-none">{newNo}</span>
+        <span className="w-4 shrink-0 select-none">{line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}</span>
+        <span className="whitespace-pre">{stripNewline(line.text)}</span>
+      </div>
+    );
+  });
+};
+
+/**
+ * Pair removed and added runs row by row so changed lines sit side by side.
+ */
+const renderSplit = (hunk: DiffHunk) => {
+  const rows: { left?: DiffLine; right?: DiffLine }[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) rows.push({ left: removed[i], right: added[i] });
+    removed = [];
+    added = [];
+  };
+  hunk.lines.forEach(line => {
+    if (line.type === 'remove') removed.push(line);
+    else if (line.type === 'add') added.push(line);
+    else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flush();
+
+  const cell = (line?: DiffLine) => (
+    <div className={`flex-1 min-w-0 overflow-hidden whitespace-pre px-2 ${line ? LINE_STYLES[line.type] : 'bg-slate-900/60'}`}>
+      {line ? stripNewline(line.text) : ' '}
+    </div>
+  );
+  return rows.map((row, i) => (
+    <div key={i} className="flex divide-x divide-slate-800">
+      {cell(row.left)}
+      {cell(row.right)}
+    </div>
+  ));
+};
+
+/**
+ * Files produced by a code step, each diffed against the uploaded original
+ * with per-hunk accept/reject, and ZIP / patch download of the result.
+ */
+const CodeChanges: React.FC<CodeChangesProps> = ({ codeFiles, files }) => {
+  const [viewMode, setViewMode] = useState<ViewMode>('unified');
+  // "<path>#<hunk id>" of every rejected hunk; everything else is accepted
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+  const changes = useMemo<FileChange[]>(() => codeFiles.map(codeFile => {
+    const match = findOriginalFile(codeFile.path as string, files);
+    const original = getTextContent(match);
+    return {
+      path: match ? getFilePath(match) : (codeFile.path as string).replace(/^\.?\//, ''),
+      original,
+      hunks: computeHunks(original ?? '', codeFile.code),
+    };
+  }), [codeFiles, files]);
+
+  const isAccepted = (path: string) => (hunk: DiffHunk) => !rejected.has(`${path}#${hunk.id}`);
+
+  const toggleHunk = (path: string, hunk: DiffHunk) => {
+    const key = `${path}#${hunk.id}`;
+    setRejected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const getResult = (change: FileChange) => applyHunks(change.original ?? '', change.hunks, isAccepted(change.path));
+
+  // Files that still differ from the original once rejected hunks are dropped
+  const getChangedFiles = () => changes
+    .map(change => ({ change, content: getResult(change) }))
+    .filter(({ change, content }) => change.original === null ? change.hunks.some(isAccepted(change.path)) : content !== change.original);
+
+  const handleDownloadZip = async () => {
+    try {
+      const blob = await createZipBlob(getChangedFiles().map(({ change, content }) => ({ path: change.path, content })));
+      downloadFile(`agent_changes_${Date.now()}.zip`, blob, 'application/zip');
+    } catch (e) {
+      console.error("Failed to generate ZIP", e);
+      alert("Failed to generate ZIP. Check console.");
+    }
+  };
+
+  const handleDownloadPatch = () => {
+    const patch = getChangedFiles()
+      .map(({ change, content }) => createFilePatch(change.path, change.original, content))
+      .join('');
+    downloadFile(`agent_changes_${Date.now()}.patch`, patch, 'text/x-diff');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-medium text-slate-400 flex items-center gap-1.5">
+          <FileDiff className="w-3.5 h-3.5" /> {changes.length} file{changes.length === 1 ? '' : 's'} changed
+        </span>
+        <div className="ml-auto flex items-center gap-1 bg-slate-900 rounded-md p-0.5 border border-slate-800">
+          <button
+            onClick={() => setViewMode('unified')}
+            title="Unified diff"
+            className={`p-1 rounded ${viewMode === 'unified' ? 'bg-slate-700 text-slate-200' : 'text-slate-500 hover:text-slate-300'}`}
+          >
+            <Rows className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => setViewMode('split')}
+            title="Side-by-side diff"
+            className={`p-1 rounded ${viewMode === 'split' ? 'bg-slate-700 text-slate-200' : 'text-slate-500 hover:text-slate-300'}`}
+          >
+            <Columns className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {changes.map(change => {
+        const added = change.hunks.reduce((n, h) => n + h.lines.filter(l => l.type === 'add').length, 0);
+        const removed = change.hunks.reduce((n, h) => n + h.lines.filter(l => l.type === 'remove').length, 0);
+        return (
+          <div key={change.path} className="rounded-md border border-slate-800 overflow-hidden">
+            <div className="flex items-center gap-2 px-3 py-2 bg-slate-900/80 border-b border-slate-800">
+              {change.original === null
+                ? <FilePlus className="w-3.5 h-3.5 text-emerald-400" />
+                : <FileCode className="w-3.5 h-3.5 text-blue-400" />}
+              <span className="text-xs font-mono text-slate-200 truncate">{change.path}</span>
+              {change.original === null && <span className="text-[10px] uppercase text-emerald-400">new</span>}
+              <span className="text-[11px] text-emerald-400">+{added}</span>
+              <span className="text-[11px] text-red-400">-{removed}</span>
+              <button
+                onClick={() => downloadFile(change.path.split('/').pop() || change.path, getResult(change), 'text/plain')}
+                title="Download this file with the accepted changes"
+                className="ml-auto p-1 rounded text-slate-500 hover:text-slate-200 hover:bg-slate-800"
+              >
+                <Download className="w-3.5 h-3.5" />
+              </button>
+            </div>
+
+            {change.hunks.length === 0 && (
+              <p className="px-3 py-2 text-xs text-slate-500">Identical to the uploaded file.</p>
+            )}
+
+            {change.hunks.map(hunk => {
+              const accepted = isAccepted(change.path)(hunk);
+              return (
+                <div key={hunk.id} className={`border-b border-slate-800 last:border-b-0 ${accepted ? '' : 'opacity-50'}`}>
+                  <div className="flex items-center justify-between px-3 py-1 bg-slate-900/40 text-[11px] font-mono text-slate-500">
+                    <span>@@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@</span>
+                    <button
+                      onClick={() => toggleHunk(change.path, hunk)}
+                      className={`flex items-center gap-1 px-2 py-0.5 rounded font-sans font-medium transition-colors ${accepted
+                        ? 'text-emerald-300 bg-emerald-900/30 hover:bg-emerald-900/50'
+                        : 'text-red-300 bg-red-900/30 hover:bg-red-900/50'}`}
+                    >
+                      {accepted ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                      {accepted ? 'Accepted' : 'Rejected'}
+                    </button>
+                  </div>
+                  <div className="text-[11px] font-mono leading-5 overflow-x-auto custom-scrollbar max-h-96">
+                    {viewMode === 'unified' ? renderUnified(hunk) : renderSplit(hunk)}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleDownloadZip}
+          className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium bg-blue-600/20 text-blue-400 hover:bg-blue-600/30 rounded-md transition-colors border border-blue-500/30"
+        >
+          <FileArchive className="w-3.5 h-3.5" />
+          Download changed files (.zip)
+        </button>
+        <button
+          onClick={handleDownloadPatch}
+          className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium bg-slate-700/40 text-slate-300 hover:bg-slate-700/60 rounded-md transition-colors border border-slate-600/40"
+        >
+          <FileDiff className="w-3.5 h-3.5" />
+          Download patch (git apply)
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CodeChanges;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Terminal, CheckCircle2, XCircle, Clock, AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import { CodeExecutionResult } from '../types';
+import { isSuccessfulRun } from '../services/runnableCode';
+
+interface ExecutionLogProps {
+  executions: CodeExecutionResult[];
+  fixAttempts?: number;
+}
+
+const describeRun = (run: CodeExecutionResult): string => {
+  if (run.error) return 'Sandbox error';
+  if (run.timedOut) return 'Timed out';
+  return run.exitCode === 0 ? 'Passed' : `Exit code ${run.exitCode}`;
+};
+
+const RunIcon: React.FC<{ run: CodeExecutionResult }> = ({ run }) => {
+  if (isSuccessfulRun(run)) return <CheckCircle2 className="w-3.5 h-3.5 text-emerald-400" />;
+  if (run.timedOut) return <Clock className="w-3.5 h-3.5 text-amber-400" />;
+  if (run.error) return <AlertTriangle className="w-3.5 h-3.5 text-amber-400" />;
+  return <XCircle className="w-3.5 h-3.5 text-red-400" />;
+};
+
+/**
+ * Sandbox runs of a code step's output, one row per attempt with its
+ * stdout and stderr.
+ */
+const ExecutionLog: React.FC<ExecutionLogProps> = ({ executions, fixAttempts = 0 }) => {
+  const last = executions[executions.length - 1];
+  // The last run is the one that matters, so it starts open when it failed
+  const [expanded, setExpanded] = useState<number | null>(last && !isSuccessfulRun(last) ? executions.length - 1 : null);
+
+  if (!last) return null;
+
+  return (
+    <div className="space-y-1.5">
+      <p className="flex items-center gap-2 text-xs font-medium text-slate-300">
+        <Terminal className="w-3.5 h-3.5 text-slate-400" />
+        Code check: {isSuccessfulRun(last) ? 'ran successfully' : describeRun(last).toLowerCase()}
+        {fixAttempts > 0 && (
+          <span className="text-slate-500 font-normal">
+            after {fixAttempts} fix attempt{fixAttempts === 1 ? '' : 's'}
+          </span>
+        )}
+      </p>
+      {executions.map((run, i) => (
+        <div key={i} className="rounded border border-slate-800 bg-slate-950/60">
+          <button
+            onClick={() => setExpanded(expanded === i ? null : i)}
+            className="w-full flex items-center gap-2 px-2 py-1.5 text-left text-xs text-slate-400 hover:text-slate-200"
+          >
+            {expanded === i ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+            <RunIcon run={run} />
+            <span>Run {i + 1}</span>
+            <span className="font-mono text-slate-500 truncate">{run.entry}</span>
+            <span className="ml-auto shrink-0">{describeRun(run)} · {run.durationMs} ms</span>
+          </button>
+          {expanded === i && (
+            <div className="border-t border-slate-800 p-2 space-y-2 text-[11px] font-mono max-h-64 overflow-auto custom-scrollbar">
+              {run.error && <p className="text-amber-300 whitespace-pre-wrap">{run.error}</p>}
+              {run.timedOut && <p className="text-amber-300">Stopped: the program did not finish within the time limit.</p>}
+              {run.stderr && <pre className="text-red-300 whitespace-pre-wrap">{run.stderr}</pre>}
+              {run.stdout && <pre className="text-slate-300 whitespace-pre-wrap">{run.stdout}</pre>}
+              {!run.stdout && !run.stderr && !run.error && <p className="text-slate-500">No output.</p>}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ExecutionLog;
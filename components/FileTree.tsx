@@ -0,0 +1,79 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Folder, FolderOpen, X } from 'lucide-react';
+import { UploadedFile } from '../types';
+import { buildFileTree, FileTreeNode } from '../utils/fileTree';
+
+interface FileTreeProps {
+  files: UploadedFile[];
+  renderFile: (file: UploadedFile) => React.ReactNode;
+  disabled?: boolean;
+  onRemoveFolder?: (path: string) => void;
+}
+
+const countFiles = (node: FileTreeNode): number =>
+  node.file ? 1 : node.children.reduce((sum, child) => sum + countFiles(child), 0);
+
+const FileTree: React.FC<FileTreeProps> = ({ files, renderFile, disabled, onRemoveFolder }) => {
+  const tree = useMemo(() => buildFileTree(files), [files]);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggle = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const renderNode = (node: FileTreeNode, depth: number): React.ReactNode => {
+    if (node.file) {
+      return (
+        <div key={node.path} style={{ paddingLeft: depth * 16 }}>
+          {renderFile(node.file)}
+        </div>
+      );
+    }
+
+    const isCollapsed = collapsed.has(node.path);
+    return (
+      <div key={node.path}>
+        <div
+          className="flex items-center gap-1.5 py-1 pr-2 rounded-md hover:bg-slate-800/60 cursor-pointer group"
+          style={{ paddingLeft: depth * 16 }}
+          onClick={() => toggle(node.path)}
+        >
+          {isCollapsed
+            ? <ChevronRight className="w-3.5 h-3.5 text-slate-500" />
+            : <ChevronDown className="w-3.5 h-3.5 text-slate-500" />}
+          {isCollapsed
+            ? <Folder className="w-4 h-4 text-amber-400/80" />
+            : <FolderOpen className="w-4 h-4 text-amber-400/80" />}
+          <span className="text-sm text-slate-300 truncate">{node.name}</span>
+          <span className="text-xs text-slate-500">{countFiles(node)}</span>
+          {onRemoveFolder && !disabled && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemoveFolder(node.path);
+              }}
+              title="Remove folder"
+              className="ml-auto p-0.5 rounded-full text-slate-500 hover:text-red-400 hover:bg-slate-700 opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+        {!isCollapsed && (
+          <div className="space-y-1">
+            {node.children.map(child => renderNode(child, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return <div className="space-y-1">{tree.children.map(child => renderNode(child, 0))}</div>;
+};
+
+export default FileTree;
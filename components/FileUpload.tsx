@@ -1,17 +1,40 @@
-import React, { useRef, useState } from 'react';
-import { Upload, FileCode, FileText, FileImage, FileQuestion, X } from 'lucide-react';
-import { UploadedFile } from '../types';
-import { generateId, readFileContent, formatFileSize, getFileCategory } from '../utils/fileUtils';
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, FileCode, FileText, FileImage, FileQuestion, X, FolderUp, Filter, AlertTriangle } from 'lucide-react';
+import { UploadedFile, FileCoverage } from '../types';
+import { formatFileSize } from '../utils/fileUtils';
+import { IngestFailure, ingestFiles } from '../utils/fileIngest';
+import { getErrorMessage } from '../services/errors';
+import { extractTextFromPDF } from '../utils/extractors/pdfBrowser';
+import { FileWithPath, getDroppedFiles, getPickedFiles } from '../utils/folderUpload';
+import {
+  createIgnoreMatcher,
+  DEFAULT_IGNORE_PATTERNS,
+  getFilePath,
+  hasFolders,
+} from '../utils/fileTree';
+import FileTree from './FileTree';
 
 interface FileUploadProps {
   files: UploadedFile[];
   setFiles: React.Dispatch<React.SetStateAction<UploadedFile[]>>;
   disabled: boolean;
+  /** How much of each file reached the model in the latest call, by file id. */
+  coverage?: Record<string, FileCoverage>;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ files, setFiles, disabled }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ files, setFiles, disabled, coverage = {} }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [ignorePatterns, setIgnorePatterns] = useState(DEFAULT_IGNORE_PATTERNS);
+  const [showFilters, setShowFilters] = useState(false);
+  // Files of the last upload that couldn't be read
+  const [failed, setFailed] = useState<IngestFailure[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // React doesn't know the non-standard folder picker attribute
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -27,40 +50,41 @@ const FileUpload: React.FC<FileUploadProps> = ({ files, setFiles, disabled }) =>
     setIsDragging(false);
     if (disabled) return;
 
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      await processFiles(Array.from(e.dataTransfer.files));
+    if (e.dataTransfer.items.length > 0 || e.dataTransfer.files.length > 0) {
+      await processFiles(await getDroppedFiles(e.dataTransfer, createIgnoreMatcher(ignorePatterns)));
     }
   };
 
   const handleFileInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      await processFiles(Array.from(e.target.files));
+    const input = e.target;
+    if (input.files && input.files.length > 0) {
+      await processFiles(getPickedFiles(input.files));
     }
     // Reset input value so same file can be selected again if needed
-    if (inputRef.current) inputRef.current.value = '';
+    input.value = '';
   };
 
-  const processFiles = async (fileList: File[]) => {
-    const newFiles: UploadedFile[] = await Promise.all(
-      fileList.map(async (file) => {
-        const content = await readFileContent(file);
-        return {
-          id: generateId(),
-          name: file.name,
-          type: file.type,
-          size: file.size,
-          content: content,
-          category: getFileCategory(file.name, file.type),
-        };
-      })
-    );
-    setFiles((prev) => [...prev, ...newFiles]);
+  const processFiles = async (picked: FileWithPath[]) => {
+    try {
+      const { files: newFiles, failed: newFailed } = await ingestFiles(picked, ignorePatterns, { pdf: extractTextFromPDF });
+      setFailed(newFailed);
+      // Uploading the same path again replaces the older copy
+      const newPaths = new Set(newFiles.map(getFilePath));
+      setFiles((prev) => [...prev.filter(f => !newPaths.has(getFilePath(f))), ...newFiles]);
+    } catch (error) {
+      console.error("Upload failed:", error);
+      setFailed([{ path: 'Upload', reason: getErrorMessage(error) }]);
+    }
   };
 
   const removeFile = (id: string) => {
     setFiles((prev) => prev.filter((f) => f.id !== id));
   };
 
+  const removeFolder = (folder: string) => {
+    setFiles((prev) => prev.filter((f) => !getFilePath(f).startsWith(`${folder}/`)));
+  };
+
   const getIcon = (category: string) => {
     switch (category) {
       case 'code': return <FileCode className="w-5 h-5 text-blue-400" />;
@@ -70,6 +94,56 @@ const FileUpload: React.FC<FileUploadProps> = ({ files, setFiles, disabled }) =>
     }
   };
 
+  const renderCoverage = (fileCoverage?: FileCoverage) => {
+    if (!fileCoverage) return null;
+    if (fileCoverage.mode === 'image') {
+      return <p className="text-[10px] text-purple-400/80 mt-1">sent as image</p>;
+    }
+    if (fileCoverage.mode === 'full') {
+      return fileCoverage.ocr ? <p className="text-[10px] text-purple-400/80 mt-1">sent as OCR text</p> : null;
+    }
+    const percent = fileCoverage.originalTokens > 0
+      ? Math.min(100, Math.round((fileCoverage.includedTokens / fileCoverage.originalTokens) * 100))
+      : 0;
+    const label = fileCoverage.mode === 'omitted'
+      ? 'not sent'
+      : `${percent}% sent (${fileCoverage.mode}${fileCoverage.ocr ? ', OCR' : ''})`;
+    return (
+      <div className="mt-1" title={`~${fileCoverage.includedTokens} of ~${fileCoverage.originalTokens} tokens reached the model`}>
+        <div className="w-full bg-slate-700 rounded-full h-1">
+          <div className="bg-amber-500 h-1 rounded-full" style={{ width: `${percent}%` }} />
+        </div>
+        <p className="text-[10px] text-amber-400/80 mt-0.5">{label}</p>
+      </div>
+    );
+  };
+
+  const renderFileCard = (file: UploadedFile) => (
+    <div 
+        key={file.id} 
+        className="flex items-center justify-between bg-slate-800/80 border border-slate-700 p-3 rounded-lg group hover:border-slate-600 transition-colors"
+    >
+      <div className="flex items-center gap-3 overflow-hidden">
+        {getIcon(file.category)}
+        <div className="min-w-0 flex-1">
+          <p className="text-sm text-slate-200 font-medium truncate" title={getFilePath(file)}>{file.name}</p>
+          <p className="text-xs text-slate-500">{formatFileSize(file.size)}</p>
+          {renderCoverage(coverage[file.id])}
+        </div>
+      </div>
+      <button
+        onClick={(e) => {
+            e.stopPropagation();
+            removeFile(file.id);
+        }}
+        disabled={disabled}
+        className={`p-1 hover:bg-slate-700 rounded-full text-slate-500 hover:text-red-400 transition-colors ${disabled ? 'hidden' : ''}`}
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
   return (
     <div className="space-y-4">
       <div
@@ -98,37 +172,77 @@ const FileUpload: React.FC<FileUploadProps> = ({ files, setFiles, disabled }) =>
             <Upload className="w-6 h-6 text-slate-300" />
         </div>
         <p className="text-slate-200 font-medium">Click to upload or drag and drop</p>
-        <p className="text-slate-400 text-sm mt-1">DOCX, PDF, Python, C++, etc.</p>
+        <p className="text-slate-400 text-sm mt-1">DOCX, PDF, PPTX, XLSX/CSV, notebooks, ZIP archives, code, images, or whole folders</p>
       </div>
 
-      {files.length > 0 && (
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-h-60 overflow-y-auto custom-scrollbar">
-          {files.map((file) => (
-            <div 
-                key={file.id} 
-                className="flex items-center justify-between bg-slate-800/80 border border-slate-700 p-3 rounded-lg group hover:border-slate-600 transition-colors"
-            >
-              <div className="flex items-center gap-3 overflow-hidden">
-                {getIcon(file.category)}
-                <div className="min-w-0">
-                  <p className="text-sm text-slate-200 font-medium truncate">{file.name}</p>
-                  <p className="text-xs text-slate-500">{formatFileSize(file.size)}</p>
-                </div>
-              </div>
-              <button
-                onClick={(e) => {
-                    e.stopPropagation();
-                    removeFile(file.id);
-                }}
-                disabled={disabled}
-                className={`p-1 hover:bg-slate-700 rounded-full text-slate-500 hover:text-red-400 transition-colors ${disabled ? 'hidden' : ''}`}
-              >
-                <X className="w-4 h-4" />
-              </button>
-            </div>
-          ))}
+      <input
+        type="file"
+        ref={folderInputRef}
+        className="hidden"
+        onChange={handleFileInput}
+        disabled={disabled}
+      />
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          disabled={disabled}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs font-medium text-slate-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <FolderUp className="w-3.5 h-3.5" /> Upload folder
+        </button>
+        <button
+          onClick={() => setShowFilters(prev => !prev)}
+          className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${showFilters ? 'bg-slate-700 text-slate-200' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'}`}
+        >
+          <Filter className="w-3.5 h-3.5" /> Ignore patterns
+        </button>
+      </div>
+
+      {showFilters && (
+        <div>
+          <textarea
+            value={ignorePatterns}
+            onChange={(e) => setIgnorePatterns(e.target.value)}
+            rows={6}
+            spellCheck={false}
+            className="w-full bg-slate-950/50 border border-slate-700 rounded-lg p-2 text-xs font-mono text-slate-300 focus:outline-none focus:border-blue-500 custom-scrollbar"
+          />
+          <p className="text-[11px] text-slate-500 mt-1">
+            .gitignore syntax, one pattern per line; prefix with ! to include. Uploaded .gitignore files are applied too.
+          </p>
         </div>
       )}
+
+      {failed.length > 0 && (
+        <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-xs text-amber-300">
+          <div className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-1.5 font-medium">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              {failed.length} file{failed.length === 1 ? '' : 's'} could not be read and {failed.length === 1 ? 'was' : 'were'} skipped
+            </span>
+            <button onClick={() => setFailed([])} className="p-0.5 rounded hover:bg-amber-500/20" title="Dismiss">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <ul className="mt-1.5 space-y-0.5 max-h-24 overflow-y-auto custom-scrollbar">
+            {failed.map(f => (
+              <li key={f.path} className="break-words">
+                <span className="font-mono">{f.path}</span>: <span className="text-amber-400/80">{f.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {files.length > 0 && (hasFolders(files) ? (
+        <div className="max-h-80 overflow-y-auto custom-scrollbar pr-1">
+          <FileTree files={files} renderFile={renderFileCard} disabled={disabled} onRemoveFolder={removeFolder} />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-h-60 overflow-y-auto custom-scrollbar">
+          {files.map(renderFileCard)}
+        </div>
+      ))}
     </div>
   );
 };
@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send, StopCircle, ListPlus, Check, Trash2, Loader2, AlertTriangle } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { FollowUpMessage } from '../types';
+import { extractThinking } from '../services/geminiService';
+
+interface FollowUpChatProps {
+  messages: FollowUpMessage[];
+  /** True while the last message is still streaming. */
+  isAnswering: boolean;
+  onAsk: (question: string) => void;
+  onStop: () => void;
+  onPromote: (messageId: string) => void;
+  onClear: () => void;
+  /** Step number of each step id, to label promoted answers. */
+  stepNumbers: Map<string, number>;
+  disabled?: boolean;
+}
+
+/**
+ * Chat about a finished run. Answers see the files, the plan and every step
+ * result, and can be added to the workflow as a new step.
+ */
+const FollowUpChat: React.FC<FollowUpChatProps> = ({
+  messages,
+  isAnswering,
+  onAsk,
+  onStop,
+  onPromote,
+  onClear,
+  stepNumbers,
+  disabled = false,
+}) => {
+  const [question, setQuestion] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages]);
+
+  const canSend = !disabled && !isAnswering && question.trim().length > 0;
+
+  const handleSend = () => {
+    if (!canSend) return;
+    onAsk(question.trim());
+    setQuestion('');
+  };
+
+  const renderAnswer = (message: FollowUpMessage, isStreaming: boolean) => {
+    const content = isStreaming ? extractThinking(message.content).content : message.content;
+    const promotedNumber = message.promotedStepId ? stepNumbers.get(message.promotedStepId) : undefined;
+
+    return (
+      <div className="bg-slate-950/50 rounded p-3 text-sm text-slate-300 border border-slate-800/50">
+        {isStreaming && !content && (
+          <div className="flex items-center gap-2 text-slate-500">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span>Thinking...</span>
+          </div>
+        )}
+        {content && (
+          <div className="prose prose-invert prose-sm max-w-none">
+            <ReactMarkdown>{content}</ReactMarkdown>
+            {isStreaming && <span className="inline-block w-2 h-4 ml-0.5 bg-amber-400/80 animate-pulse align-middle" />}
+          </div>
+        )}
+        {message.error && (
+          <p className="mt-2 flex items-center gap-1.5 text-xs text-red-300">
+            <AlertTriangle className="w-3.5 h-3.5" /> {message.error}
+          </p>
+        )}
+        {!isStreaming && !message.error && message.content && (
+          <div className="flex justify-end mt-2 pt-2 border-t border-slate-800">
+            {promotedNumber !== undefined ? (
+              <span className="flex items-center gap-1.5 text-xs text-emerald-400">
+                <Check className="w-3.5 h-3.5" /> Added as step {promotedNumber + 1}
+              </span>
+            ) : (
+              <button
+                onClick={() => onPromote(message.id)}
+                disabled={disabled}
+                title="Append this answer to the workflow as a completed step"
+                className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <ListPlus className="w-3.5 h-3.5" /> Add as step
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-slate-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-100">
+          <MessageSquare className="w-4 h-4 text-blue-400" />
+          Follow-up
+        </h3>
+        {messages.length > 0 && (
+          <button
+            onClick={onClear}
+            disabled={isAnswering}
+            className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-300 disabled:opacity-40"
+          >
+            <Trash2 className="w-3.5 h-3.5" /> Clear
+          </button>
+        )}
+      </div>
+
+      {messages.map((message, i) => message.role === 'user' ? (
+        <div key={message.id} className="flex justify-end">
+          <p className="max-w-[85%] px-3 py-2 rounded-lg bg-blue-600/20 border border-blue-500/30 text-sm text-slate-200 whitespace-pre-wrap">
+            {message.content}
+          </p>
+        </div>
+      ) : (
+        <div key={message.id}>
+          {renderAnswer(message, isAnswering && i === messages.length - 1)}
+        </div>
+      ))}
+
+      <div className="flex gap-2 items-end">
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          disabled={disabled}
+          rows={2}
+          placeholder='Ask about the results or request a change, e.g. "make the fix use async IO"'
+          className="flex-1 bg-slate-950/50 border border-slate-700 rounded-lg p-2.5 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500 resize-y disabled:opacity-50"
+        />
+        {isAnswering ? (
+          <button
+            onClick={onStop}
+            title="Stop the answer"
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-amber-600/20 text-amber-300 hover:bg-amber-600/30 border border-amber-500/30 text-sm font-medium transition-colors"
+          >
+            <StopCircle className="w-4 h-4" /> Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleSend}
+            disabled={!canSend}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium transition-colors disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed"
+          >
+            <Send className="w-4 h-4" /> Send
+          </button>
+        )}
+      </div>
+      <div ref={endRef} />
+    </div>
+  );
+};
+
+export default FollowUpChat;
@@ -0,0 +1,182 @@
+import React from 'react';
+import { GenerationSettings, ReviewMode } from '../types';
+
+interface GenerationSettingsFormProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  /** Effective values when a field is left empty, shown as placeholders. */
+  inherited: GenerationSettings;
+  disabled?: boolean;
+}
+
+const inputClass = 'w-full bg-slate-950/50 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-500 disabled:opacity-50';
+
+const REVIEW_MODE_LABELS: Record<ReviewMode, string> = {
+  off: 'Off',
+  final: 'Final step',
+  all: 'Every step',
+};
+
+// Empty input means "inherit", so it maps to undefined rather than 0
+const parseNumber = (value: string): number | undefined => value.trim() === '' ? undefined : Number(value);
+
+/**
+ * Model, sampling and length settings. Empty fields inherit, so the same form
+ * serves the workflow defaults and per-step overrides.
+ */
+const GenerationSettingsForm: React.FC<GenerationSettingsFormProps> = ({ settings, onChange, inherited, disabled = false }) => {
+  const update = (patch: Partial<GenerationSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="grid grid-cols-2 gap-x-3 gap-y-2 text-xs text-slate-400">
+      <label className="col-span-2 space-y-1">
+        <span>Model</span>
+        <input
+          value={settings.model ?? ''}
+          onChange={(e) => update({ model: e.target.value.trim() || undefined })}
+          placeholder={inherited.model}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+      <label className="space-y-1">
+        <span>Temperature</span>
+        <input
+          type="number"
+          min={0}
+          max={2}
+          step={0.1}
+          value={settings.temperature ?? ''}
+          onChange={(e) => update({ temperature: parseNumber(e.target.value) })}
+          placeholder={inherited.temperature?.toString() ?? 'default'}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+      <label className="space-y-1">
+        <span>Top-p</span>
+        <input
+          type="number"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.topP ?? ''}
+          onChange={(e) => update({ topP: parseNumber(e.target.value) })}
+          placeholder={inherited.topP?.toString() ?? 'default'}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+      <label className="space-y-1">
+        <span>Max output tokens</span>
+        <input
+          type="number"
+          min={64}
+          step={256}
+          value={settings.maxTokens ?? ''}
+          onChange={(e) => update({ maxTokens: parseNumber(e.target.value) })}
+          placeholder={inherited.maxTokens?.toString() ?? 'default'}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+      <label className="space-y-1">
+        <span>Thinking</span>
+        <select
+          value={settings.thinking === undefined ? '' : String(settings.thinking)}
+          onChange={(e) => update({ thinking: e.target.value === '' ? undefined : e.target.value === 'true' })}
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="">{inherited.thinking === false ? 'Inherit (off)' : 'Inherit (on)'}</option>
+          <option value="true">On</option>
+          <option value="false">Off</option>
+        </select>
+      </label>
+      <label className="space-y-1" title="Run the code of code steps in a sandbox and let the model fix failures">
+        <span>Run generated code</span>
+        <select
+          value={settings.verifyCode === undefined ? '' : String(settings.verifyCode)}
+          onChange={(e) => update({ verifyCode: e.target.value === '' ? undefined : e.target.value === 'true' })}
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="">{inherited.verifyCode === false ? 'Inherit (off)' : 'Inherit (on)'}</option>
+          <option value="true">On</option>
+          <option value="false">Off</option>
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span>Fix attempts</span>
+        <input
+          type="number"
+          min={0}
+          max={5}
+          value={settings.maxFixAttempts ?? ''}
+          onChange={(e) => update({ maxFixAttempts: parseNumber(e.target.value) })}
+          placeholder={inherited.maxFixAttempts?.toString() ?? 'default'}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+      <label className="space-y-1" title="Score results against the goal and files, and revise low scores">
+        <span>Review</span>
+        <select
+          value={settings.review ?? ''}
+          onChange={(e) => update({ review: (e.target.value || undefined) as ReviewMode | undefined })}
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="">Inherit ({REVIEW_MODE_LABELS[inherited.review ?? 'off'].toLowerCase()})</option>
+          {(Object.keys(REVIEW_MODE_LABELS) as ReviewMode[]).map(mode => (
+            <option key={mode} value={mode}>{REVIEW_MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span>Passing score <span className="text-slate-600">(0-10)</span></span>
+        <input
+          type="number"
+          min={0}
+          max={10}
+          step={0.5}
+          value={settings.reviewThreshold ?? ''}
+          onChange={(e) => update({ reviewThreshold: parseNumber(e.target.value) })}
+          placeholder={inherited.reviewThreshold?.toString() ?? 'default'}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+      <label className="space-y-1">
+        <span>Max revisions</span>
+        <input
+          type="number"
+          min={0}
+          max={5}
+          value={settings.maxRevisions ?? ''}
+          onChange={(e) => update({ maxRevisions: parseNumber(e.target.value) })}
+          placeholder={inherited.maxRevisions?.toString() ?? 'default'}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+      <label className="col-span-2 space-y-1">
+        <span>Stop sequences <span className="text-slate-600">(comma separated)</span></span>
+        {/* Parsed on blur: splitting while typing would eat the trailing comma */}
+        <input
+          key={settings.stopSequences?.join('\n') ?? ''}
+          defaultValue={settings.stopSequences?.join(', ') ?? ''}
+          onBlur={(e) => {
+            const stops = e.target.value.split(',').map(s => s.trim()).filter(Boolean);
+            update({ stopSequences: stops.length ? stops : undefined });
+          }}
+          placeholder={inherited.stopSequences?.join(', ') || 'none'}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default GenerationSettingsForm;
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { WorkflowStep, StepStatus, StepOutputType, GenerationSettings } from '../types';
+import { ArrowUp, ArrowDown, Trash2, Plus, Play, RefreshCw, Loader2, SlidersHorizontal } from 'lucide-react';
+import { generateId } from '../utils/fileUtils';
+import { STEP_OUTPUT_TYPES } from '../services/planSchema';
+import { getProviderConfig } from '../services/geminiService';
+import { DEFAULT_GENERATION_SETTINGS, resolveSettings } from '../services/generation';
+import GenerationSettingsForm from './GenerationSettingsForm';
+
+interface PlanEditorProps {
+  steps: WorkflowStep[];
+  onStepsChange: (steps: WorkflowStep[]) => void;
+  onRun: () => void;
+  onRegenerate: (feedback: string) => void;
+  isRegenerating: boolean;
+  workflowSettings?: GenerationSettings;
+}
+
+/**
+ * Review mode for a freshly generated plan: steps can be edited, reordered,
+ * removed or added by hand before anything is sent to the model.
+ */
+const PlanEditor: React.FC<PlanEditorProps> = ({ steps, onStepsChange, onRun, onRegenerate, isRegenerating, workflowSettings }) => {
+  const [feedback, setFeedback] = useState('');
+  const [settingsOpenFor, setSettingsOpenFor] = useState<string | null>(null);
+  const inheritedSettings = resolveSettings({ ...DEFAULT_GENERATION_SETTINGS, model: getProviderConfig().model }, workflowSettings);
+
+  const hasOverrides = (step: WorkflowStep) =>
+    !!step.settings && Object.keys(resolveSettings(step.settings)).length > 0;
+
+  const updateStep = (id: string, patch: Partial<WorkflowStep>) => {
+    onStepsChange(steps.map(s => s.id === id ? { ...s, ...patch } : s));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= steps.length) return;
+    const next = [...steps];
+    [next[index], next[target]] = [next[target], next[index]];
+    onStepsChange(next);
+  };
+
+  const removeStep = (id: string) => {
+    onStepsChange(steps
+      .filter(s => s.id !== id)
+      .map(s => s.dependsOn?.includes(id) ? { ...s, dependsOn: s.dependsOn.filter(d => d !== id) } : s));
+  };
+
+  const addStep = () => {
+    onStepsChange([...steps, { id: generateId(), description: '', status: StepStatus.PENDING, outputType: 'analysis' }]);
+  };
+
+  const hasEmptySteps = steps.some(s => !s.description.trim());
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-400">
+        Review the plan before the agent runs it. Edit, reorder, remove or add steps, or ask for a new plan.
+      </p>
+
+      <div className="space-y-2">
+        {steps.map((step, index) => (
+          <div key={step.id} className="flex items-start gap-2 bg-slate-800/40 border border-slate-700 rounded-lg p-2">
+            <span className="text-xs font-mono text-slate-500 pt-2.5 w-6 text-right flex-shrink-0">{index + 1}.</span>
+            <div className="flex-1 space-y-2">
+              <div className="flex gap-2">
+                <input
+                  value={step.description}
+                  onChange={(e) => updateStep(step.id, { description: e.target.value })}
+                  placeholder="Step title"
+                  className="flex-1 bg-slate-950/50 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+                />
+                <select
+                  value={step.outputType || 'analysis'}
+                  onChange={(e) => updateStep(step.id, { outputType: e.target.value as StepOutputType })}
+                  title="Expected output"
+                  className="bg-slate-950/50 border border-slate-700 rounded-md px-2 text-xs text-slate-300 focus:outline-none focus:border-blue-500"
+                >
+                  {STEP_OUTPUT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+              </div>
+              <textarea
+                value={step.instructions || ''}
+                onChange={(e) => updateStep(step.id, { instructions: e.target.value })}
+                rows={2}
+                placeholder="Instructions: what exactly should the agent do in this step?"
+                className="w-full bg-slate-950/50 border border-slate-700 rounded-md p-2 text-xs text-slate-300 placeholder-slate-500 focus:outline-none focus:border-blue-500 resize-y"
+              />
+              {settingsOpenFor === step.id && (
+                <div className="p-2 bg-slate-950/30 border border-slate-700 rounded-md">
+                  <GenerationSettingsForm
+                    settings={step.settings || {}}
+                    onChange={(settings) => updateStep(step.id, { settings })}
+                    inherited={inheritedSettings}
+                  />
+                </div>
+              )}
+            </div>
+            <div className="flex flex-col gap-1 flex-shrink-0">
+              <button
+                onClick={() => moveStep(index, -1)}
+                disabled={index === 0}
+                title="Move up"
+                className="p-1 rounded hover:bg-slate-700 text-slate-400 disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => moveStep(index, 1)}
+                disabled={index === steps.length - 1}
+                title="Move down"
+                className="p-1 rounded hover:bg-slate-700 text-slate-400 disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setSettingsOpenFor(prev => prev === step.id ? null : step.id)}
+                title={hasOverrides(step) ? 'Model settings (overridden for this step)' : 'Model settings'}
+                className={`p-1 rounded hover:bg-slate-700 ${hasOverrides(step) ? 'text-blue-400' : 'text-slate-400'}`}
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+              </button>
+            </div>
+            <button
+              onClick={() => removeStep(step.id)}
+              title="Delete step"
+              className="p-1 mt-1 rounded hover:bg-slate-700 text-slate-500 hover:text-red-400 flex-shrink-0"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={addStep}
+        className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 rounded-md transition-colors"
+      >
+        <Plus className="w-3.5 h-3.5" /> Add step
+      </button>
+
+      <div className="pt-4 border-t border-slate-800 space-y-2">
+        <label htmlFor="plan-feedback" className="block text-sm font-medium text-slate-300">
+          Regenerate with feedback
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="plan-feedback"
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+            placeholder='e.g. "fewer steps, focus on security"'
+            className="flex-1 bg-slate-950/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={() => onRegenerate(feedback)}
+            disabled={isRegenerating}
+            className="flex items-center gap-2 px-3 py-2 text-sm font-medium bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-wait"
+          >
+            {isRegenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            Regenerate
+          </button>
+        </div>
+      </div>
+
+      <button
+        onClick={onRun}
+        disabled={steps.length === 0 || hasEmptySteps || isRegenerating}
+        className="w-full py-3 px-4 rounded-xl flex items-center justify-center gap-2 font-semibold transition-all shadow-lg bg-blue-600 hover:bg-blue-500 text-white disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed"
+      >
+        <Play className="w-5 h-5" /> Run Workflow
+      </button>
+    </div>
+  );
+};
+
+export default PlanEditor;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { ClipboardCheck, ChevronDown, ChevronRight, History } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { StepDraft, StepReview } from '../types';
+
+interface ReviewPanelProps {
+  review?: StepReview;
+  drafts?: StepDraft[];
+  /** Scores below this are shown as failing. */
+  threshold?: number;
+}
+
+const scoreClass = (score: number, threshold: number): string => {
+  if (score >= threshold) return 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30';
+  return score >= threshold - 2
+    ? 'bg-amber-500/10 text-amber-400 border-amber-500/30'
+    : 'bg-red-500/10 text-red-400 border-red-500/30';
+};
+
+const ReviewDetails: React.FC<{ review: StepReview }> = ({ review }) => (
+  <div className="space-y-2 text-xs">
+    {review.summary && <p className="text-slate-300">{review.summary}</p>}
+    {review.criteria.length > 0 && (
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+        {review.criteria.map(c => (
+          <li key={c.name} className="text-slate-400" title={c.comment}>
+            <span className="capitalize">{c.name}</span>
+            <span className="font-mono text-slate-200 ml-1.5">{c.score}</span>
+            {c.comment && <span className="block text-slate-500">{c.comment}</span>}
+          </li>
+        ))}
+      </ul>
+    )}
+    {review.issues.length > 0 && (
+      <ul className="space-y-1">
+        {review.issues.map((issue, i) => (
+          <li key={i} className="flex gap-2">
+            <span className={`shrink-0 uppercase text-[10px] font-semibold mt-0.5 ${issue.severity === 'major' ? 'text-red-400' : 'text-amber-400'}`}>
+              {issue.severity}
+            </span>
+            <span className="text-slate-300">{issue.description}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+/**
+ * Reviewer's score and critique of a step result, plus the earlier drafts
+ * it sent back for revision.
+ */
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ review, drafts = [], threshold = 7 }) => {
+  const [showDrafts, setShowDrafts] = useState(false);
+  const [expandedDraft, setExpandedDraft] = useState<number | null>(null);
+
+  if (!review && drafts.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {review && (
+        <>
+          <p className="flex items-center gap-2 text-xs font-medium text-slate-300">
+            <ClipboardCheck className="w-3.5 h-3.5 text-slate-400" />
+            Review
+            <span className={`px-1.5 py-0.5 rounded border font-mono ${scoreClass(review.score, threshold)}`}>
+              {review.score}/10
+            </span>
+            {drafts.length > 0 && (
+              <span className="text-slate-500 font-normal">
+                after {drafts.length} revision{drafts.length === 1 ? '' : 's'}
+              </span>
+            )}
+          </p>
+          <ReviewDetails review={review} />
+        </>
+      )}
+
+      {drafts.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowDrafts(!showDrafts)}
+            className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-slate-200"
+          >
+            {showDrafts ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+            <History className="w-3.5 h-3.5" />
+            Earlier drafts ({drafts.length})
+          </button>
+          {showDrafts && (
+            <div className="mt-1.5 space-y-1.5">
+              {drafts.map((draft, i) => (
+                <div key={i} className="rounded border border-slate-800 bg-slate-950/60">
+                  <button
+                    onClick={() => setExpandedDraft(expandedDraft === i ? null : i)}
+                    className="w-full flex items-center gap-2 px-2 py-1.5 text-left text-xs text-slate-400 hover:text-slate-200"
+                  >
+                    {expandedDraft === i ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                    <span>Draft {i + 1}</span>
+                    <span className={`ml-auto px-1.5 rounded border font-mono ${scoreClass(draft.review.score, threshold)}`}>
+                      {draft.review.score}/10
+                    </span>
+                  </button>
+                  {expandedDraft === i && (
+                    <div className="border-t border-slate-800 p-2 space-y-3">
+                      <ReviewDetails review={draft.review} />
+                      <div className="prose prose-invert prose-sm max-w-none max-h-80 overflow-auto custom-scrollbar pt-2 border-t border-slate-800">
+                        <ReactMarkdown>{draft.result}</ReactMarkdown>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewPanel;
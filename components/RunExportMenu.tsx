@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileText, FileCode, Printer, FileJson } from 'lucide-react';
+import { PriceTable, WorkflowRun } from '../types';
+import { downloadFile } from '../utils/download';
+import { RunExportFormat, createRunBundle, createRunHtml, createRunMarkdown, printRunHtml } from '../utils/runExport';
+
+interface RunExportMenuProps {
+  /** Snapshot of the run to export; called when a format is picked. */
+  getRun: () => WorkflowRun | null;
+  /** For the costs in the report. */
+  prices?: PriceTable;
+  disabled?: boolean;
+}
+
+const FORMATS: { format: RunExportFormat; label: string; icon: React.ElementType }[] = [
+  { format: 'markdown', label: 'Markdown (.md)', icon: FileText },
+  { format: 'html', label: 'HTML page (.html)', icon: FileCode },
+  { format: 'pdf', label: 'PDF (print dialog)', icon: Printer },
+  { format: 'json', label: 'JSON bundle (re-importable)', icon: FileJson },
+];
+
+// File names keep the run name readable but filesystem safe
+const getFileBase = (run: WorkflowRun) =>
+  `${run.name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60) || 'agent_run'}_${Date.now()}`;
+
+const RunExportMenu: React.FC<RunExportMenuProps> = ({ getRun, prices, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeThinking, setIncludeThinking] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (format: RunExportFormat) => {
+    const run = getRun();
+    if (!run) return;
+    setIsOpen(false);
+    const options = { includeThinking, prices };
+
+    try {
+      switch (format) {
+        case 'markdown':
+          downloadFile(`${getFileBase(run)}.md`, createRunMarkdown(run, options), 'text/markdown');
+          break;
+        case 'html':
+          downloadFile(`${getFileBase(run)}.html`, createRunHtml(run, options), 'text/html');
+          break;
+        case 'pdf':
+          await printRunHtml(createRunHtml(run, options));
+          break;
+        case 'json':
+          downloadFile(`${getFileBase(run)}.json`, createRunBundle(run), 'application/json');
+          break;
+      }
+    } catch (e) {
+      console.error("Failed to export run", e);
+      alert("Failed to export the run. Check console.");
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled}
+        title={disabled ? 'Generate a workflow first' : 'Export the whole run'}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+      >
+        <Download className="w-4 h-4" /> Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 z-30 rounded-lg border border-slate-700 bg-slate-900 shadow-2xl p-1">
+          {FORMATS.map(({ format, label, icon: Icon }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-md text-sm text-slate-300 hover:bg-slate-800 text-left"
+            >
+              <Icon className="w-4 h-4 text-slate-400" />
+              {label}
+            </button>
+          ))}
+          <label className="flex items-center gap-2 px-3 py-2 mt-1 border-t border-slate-800 text-xs text-slate-400 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={includeThinking}
+              onChange={(e) => setIncludeThinking(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Include model thinking in reports
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunExportMenu;
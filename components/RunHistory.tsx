@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import { WorkflowRun, StepStatus } from '../types';
+import { History, X, Copy, Trash2, Pencil, Check, Upload } from 'lucide-react';
+
+interface RunHistoryProps {
+  runs: WorkflowRun[];
+  currentRunId: string | null;
+  disabled: boolean;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  /** A JSON bundle produced by "Export run". */
+  onImport: (file: File) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const RunHistory: React.FC<RunHistoryProps> = ({
+  runs,
+  currentRunId,
+  disabled,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onImport,
+  onDelete,
+  onClose,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const startRename = (run: WorkflowRun) => {
+    setEditingId(run.id);
+    setDraftName(run.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="fixed inset-y-0 left-0 z-40 w-full max-w-sm bg-slate-900 border-r border-slate-800 shadow-2xl flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-slate-800">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <History className="w-5 h-5 text-blue-400" />
+          Run History
+        </h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={disabled}
+            title="Import a run exported as JSON"
+            className="flex items-center gap-1.5 px-2 py-1 rounded-md hover:bg-slate-800 text-xs text-slate-400 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Upload className="w-4 h-4" /> Import
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-800 text-slate-400">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-2">
+        {runs.length === 0 && (
+          <p className="text-sm text-slate-500 text-center py-10">No saved runs yet.</p>
+        )}
+
+        {runs.map(run => {
+          const completed = run.steps.filter(s => s.status === StepStatus.COMPLETED).length;
+          const isCurrent = run.id === currentRunId;
+
+          return (
+            <div
+              key={run.id}
+              className={`group rounded-lg border p-3 transition-colors ${isCurrent ? 'border-blue-500/50 bg-blue-900/10' : 'border-slate-800 bg-slate-800/40 hover:border-slate-700'}`}
+            >
+              {editingId === run.id ? (
+                <div className="flex gap-2">
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 bg-slate-950/50 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+                  />
+                  <button onClick={commitRename} className="p-1 rounded hover:bg-slate-700 text-blue-400">
+                    <Check className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => onOpen(run.id)}
+                  disabled={disabled}
+                  className="w-full text-left disabled:cursor-not-allowed"
+                >
+                  <p className="text-sm font-medium text-slate-200 truncate">{run.name}</p>
+                  <p className="text-xs text-slate-500 mt-0.5">
+                    {formatDate(run.updatedAt)} &middot; {completed}/{run.steps.length} steps &middot; {run.model}
+                  </p>
+                </button>
+              )}
+
+              {editingId !== run.id && (
+                <div className="flex gap-1 mt-2 opacity-60 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => startRename(run)} title="Rename" className="p-1 rounded hover:bg-slate-700 text-slate-400">
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => onDuplicate(run.id)} title="Duplicate" className="p-1 rounded hover:bg-slate-700 text-slate-400">
+                    <Copy className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(run.id)}
+                    disabled={disabled && isCurrent}
+                    title="Delete"
+                    className="p-1 rounded hover:bg-slate-700 text-slate-400 hover:text-red-400 disabled:opacity-30"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
+
+export default RunHistory;
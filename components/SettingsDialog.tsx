@@ -0,0 +1,321 @@
+import React, { useRef, useState } from 'react';
+import { KeyRound, X, Eye, EyeOff, PlugZap, Loader2, CheckCircle2, AlertCircle, Lock, Unlock } from 'lucide-react';
+import { PriceTable } from '../types';
+import { PROVIDER_IDS, PROVIDER_LABELS, DEFAULT_MODELS, ProviderId, resolveProviderConfig, requiresApiKey } from '../services/providers';
+import { ApiKeys, ProviderSettings, StoredKeysState, WrongPassphraseError } from '../services/keyStore';
+import { testProviderConnection } from '../services/geminiService';
+import { getErrorMessage } from '../services/errors';
+import { formatPriceTable, parsePriceTable, PriceTableError } from '../services/usage';
+
+export interface SettingsDialogSaveOptions {
+  settings: ProviderSettings;
+  keys: ApiKeys;
+  /** How the keys are kept between sessions. */
+  storage: StoredKeysState;
+  passphrase?: string;
+}
+
+interface SettingsDialogProps {
+  settings: ProviderSettings;
+  keys: ApiKeys;
+  storage: StoredKeysState;
+  /** Stored keys are encrypted and haven't been unlocked this session. */
+  locked: boolean;
+  /** Resolves with the decrypted keys. */
+  onUnlock: (passphrase: string) => Promise<ApiKeys>;
+  onSave: (options: SettingsDialogSaveOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+type TestStatus =
+  | { state: 'idle' }
+  | { state: 'testing' }
+  | { state: 'ok'; latencyMs: number }
+  | { state: 'error'; message: string };
+
+// Providers that take a key; the mock provider never needs one
+const KEYED_PROVIDERS = PROVIDER_IDS.filter(id => id !== 'mock');
+
+const inputClass = 'w-full bg-slate-950/50 border border-slate-700 rounded-md px-3 py-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-500';
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ settings, keys, storage, locked, onUnlock, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const [pricesText, setPricesText] = useState(() => formatPriceTable(settings.prices || {}));
+  const [draftKeys, setDraftKeys] = useState<ApiKeys>(keys);
+  const [visibleKeys, setVisibleKeys] = useState<Partial<Record<ProviderId, boolean>>>({});
+  const [draftStorage, setDraftStorage] = useState<StoredKeysState>(storage);
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [testStatus, setTestStatus] = useState<TestStatus>({ state: 'idle' });
+  const testControllerRef = useRef<AbortController | null>(null);
+
+  const config = resolveProviderConfig(import.meta.env, draft, draftKeys);
+  const keyMissing = requiresApiKey(config) && !config.apiKey;
+  // Saving while still locked leaves the encrypted keys as they are
+  const keepsLockedKeys = locked && storage === 'encrypted' && draftStorage === 'encrypted';
+  const needsPassphrase = draftStorage === 'encrypted' && !passphrase && !keepsLockedKeys;
+
+  const update = (patch: Partial<ProviderSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setTestStatus({ state: 'idle' });
+  };
+
+  const handleUnlock = async () => {
+    setUnlockError(null);
+    try {
+      const unlocked = await onUnlock(unlockPassphrase);
+      // Keys typed before unlocking win over the stored ones
+      setDraftKeys(prev => ({ ...unlocked, ...prev }));
+      setUnlockPassphrase('');
+    } catch (err) {
+      setUnlockError(err instanceof WrongPassphraseError ? 'Wrong passphrase.' : getErrorMessage(err));
+    }
+  };
+
+  const handleTest = async () => {
+    testControllerRef.current?.abort();
+    const controller = new AbortController();
+    testControllerRef.current = controller;
+    setTestStatus({ state: 'testing' });
+    try {
+      const latencyMs = await testProviderConnection(config, controller.signal);
+      if (!controller.signal.aborted) setTestStatus({ state: 'ok', latencyMs });
+    } catch (err) {
+      if (!controller.signal.aborted) setTestStatus({ state: 'error', message: getErrorMessage(err) });
+    }
+  };
+
+  const handleClose = () => {
+    testControllerRef.current?.abort();
+    onClose();
+  };
+
+  const handleSave = async () => {
+    setSaveError(null);
+    let prices: PriceTable;
+    try {
+      prices = parsePriceTable(pricesText);
+    } catch (err) {
+      setSaveError(err instanceof PriceTableError ? `Prices: ${err.issues.join('; ')}` : getErrorMessage(err));
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave({
+        settings: {
+          provider: draft.provider,
+          model: draft.model?.trim() || undefined,
+          baseUrl: draft.baseUrl?.trim() || undefined,
+          prices: Object.keys(prices).length > 0 ? prices : undefined,
+        },
+        keys: draftKeys,
+        storage: draftStorage,
+        passphrase: draftStorage === 'encrypted' ? passphrase || undefined : undefined,
+      });
+      handleClose();
+    } catch (err) {
+      setSaveError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={handleClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-dialog-title"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg max-h-full overflow-y-auto bg-slate-900 border border-slate-800 rounded-xl shadow-2xl"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 id="settings-dialog-title" className="text-lg font-semibold text-white flex items-center gap-2">
+            <KeyRound className="w-5 h-5 text-blue-400" />
+            Provider & API Keys
+          </h2>
+          <button onClick={handleClose} className="p-1 rounded-md hover:bg-slate-800 text-slate-400" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-5 text-sm">
+          {locked && (
+            <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg space-y-2">
+              <p className="flex items-center gap-2 text-amber-300">
+                <Lock className="w-4 h-4" /> Your saved keys are encrypted. Enter the passphrase to unlock them.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  value={unlockPassphrase}
+                  onChange={(e) => setUnlockPassphrase(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleUnlock(); }}
+                  placeholder="Passphrase"
+                  autoComplete="current-password"
+                  className={inputClass}
+                />
+                <button
+                  onClick={handleUnlock}
+                  disabled={!unlockPassphrase}
+                  className="flex items-center gap-1.5 px-3 rounded-md bg-amber-600 hover:bg-amber-500 text-white disabled:opacity-40"
+                >
+                  <Unlock className="w-4 h-4" /> Unlock
+                </button>
+              </div>
+              {unlockError && <p className="text-xs text-red-400">{unlockError}</p>}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <label className="block space-y-1">
+              <span className="text-slate-300">Provider</span>
+              <select
+                value={config.provider}
+                onChange={(e) => update({ provider: e.target.value as ProviderId, model: undefined, baseUrl: undefined })}
+                className={inputClass}
+              >
+                {PROVIDER_IDS.map(id => <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>)}
+              </select>
+            </label>
+            <label className="block space-y-1">
+              <span className="text-slate-300">Model</span>
+              <input
+                value={draft.model ?? ''}
+                onChange={(e) => update({ model: e.target.value })}
+                placeholder={config.model || DEFAULT_MODELS[config.provider]}
+                className={inputClass}
+              />
+            </label>
+            {config.provider === 'openai' && (
+              <label className="block space-y-1">
+                <span className="text-slate-300">Base URL <span className="text-slate-500">(OpenAI-compatible servers)</span></span>
+                <input
+                  value={draft.baseUrl ?? ''}
+                  onChange={(e) => update({ baseUrl: e.target.value })}
+                  placeholder={config.baseUrl || 'https://api.openai.com/v1'}
+                  className={inputClass}
+                />
+              </label>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-slate-300 font-medium">API keys</h3>
+            {KEYED_PROVIDERS.map(id => (
+              <label key={id} className="block space-y-1">
+                <span className="text-xs text-slate-400">{PROVIDER_LABELS[id]}</span>
+                <div className="flex gap-2">
+                  <input
+                    type={visibleKeys[id] ? 'text' : 'password'}
+                    value={draftKeys[id] ?? ''}
+                    onChange={(e) => {
+                      setDraftKeys(prev => ({ ...prev, [id]: e.target.value.trim() || undefined }));
+                      setTestStatus({ state: 'idle' });
+                    }}
+                    placeholder={locked ? 'Locked' : 'Not set (falls back to .env.local)'}
+                    autoComplete="off"
+                    spellCheck={false}
+                    className={`${inputClass} font-mono`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setVisibleKeys(prev => ({ ...prev, [id]: !prev[id] }))}
+                    title={visibleKeys[id] ? 'Hide key' : 'Show key'}
+                    className="px-2 rounded-md bg-slate-800 hover:bg-slate-700 text-slate-400"
+                  >
+                    {visibleKeys[id] ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-slate-300 font-medium">Remember keys</h3>
+            <select
+              value={draftStorage}
+              onChange={(e) => setDraftStorage(e.target.value as StoredKeysState)}
+              className={inputClass}
+            >
+              <option value="none">Only for this session</option>
+              <option value="plain">In this browser (unencrypted)</option>
+              <option value="encrypted">In this browser, encrypted with a passphrase</option>
+            </select>
+            {draftStorage === 'encrypted' && (
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase (asked for once per session)"
+                autoComplete="new-password"
+                className={inputClass}
+              />
+            )}
+            <p className="text-[11px] text-slate-500">
+              Keys are only sent to the selected provider. Unencrypted keys can be read by anything running on this page; keys in .env.local are bundled into the build.
+            </p>
+          </div>
+
+          <label className="block space-y-2">
+            <span className="text-slate-300 font-medium">Prices <span className="text-slate-500 font-normal">(USD per 1M tokens)</span></span>
+            <textarea
+              value={pricesText}
+              onChange={(e) => setPricesText(e.target.value)}
+              placeholder={'# model  input  output\ngemini-2.5-flash 0.30 2.50\ngpt-4o* 2.50 10'}
+              rows={4}
+              spellCheck={false}
+              className={`${inputClass} font-mono text-xs resize-y`}
+            />
+            <span className="block text-[11px] text-slate-500">
+              One model per line. A trailing * matches every model starting with the name. Used for run costs and cost budgets.
+            </span>
+          </label>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleTest}
+              disabled={testStatus.state === 'testing' || keyMissing}
+              className="flex items-center gap-2 px-3 py-2 rounded-md bg-slate-800 hover:bg-slate-700 text-slate-200 disabled:opacity-40"
+            >
+              {testStatus.state === 'testing' ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlugZap className="w-4 h-4" />}
+              Test connection
+            </button>
+            {keyMissing && <span className="text-xs text-amber-400">No key for {PROVIDER_LABELS[config.provider]}.</span>}
+            {testStatus.state === 'ok' && (
+              <span className="flex items-center gap-1 text-xs text-emerald-400">
+                <CheckCircle2 className="w-4 h-4" /> Connected ({testStatus.latencyMs} ms)
+              </span>
+            )}
+            {testStatus.state === 'error' && (
+              <span className="flex items-start gap-1 text-xs text-red-400 break-words min-w-0">
+                <AlertCircle className="w-4 h-4 shrink-0" /> {testStatus.message}
+              </span>
+            )}
+          </div>
+
+          {saveError && <p className="text-xs text-red-400">{saveError}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-slate-800">
+          <button onClick={handleClose} className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm font-medium">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || needsPassphrase}
+            title={needsPassphrase ? 'Enter a passphrase to encrypt the keys' : undefined}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDialog;
@@ -0,0 +1,318 @@
+import React, { memo, useMemo } from 'react';
+import { WorkflowStep, StepStatus, UploadedFile } from '../types';
+import { Loader2, FileText, FileCode, ChevronDown, ChevronRight, Brain, AlertTriangle, RotateCcw, Timer } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { downloadFile } from '../utils/download';
+import { createDocxBlob } from '../utils/markdownToDocx';
+import { CodeFile, extractCodeFiles, getExtension } from '../utils/codeOutput';
+import { formatCost, formatTokenCount } from '../services/usage';
+import CodeChanges from './CodeChanges';
+import ExecutionLog from './ExecutionLog';
+import ReviewPanel from './ReviewPanel';
+
+interface StepCardProps {
+  step: WorkflowStep;
+  index: number;
+  /** Human readable step numbers this step depends on, e.g. "1, 2". */
+  dependsOnLabel?: string;
+  isThinkingExpanded: boolean;
+  onToggleThinking: (stepId: string) => void;
+  /** False while the workflow is running; reruns would race the executor. */
+  canRerun?: boolean;
+  onRerun?: (stepId: string) => void;
+  /** Uploaded files, to diff generated code against. */
+  files?: UploadedFile[];
+  /** Review scores below this are shown as failing. */
+  reviewThreshold?: number;
+  /** USD spent on the step; undefined when its model has no price. */
+  cost?: number;
+}
+
+const handleDownloadCode = (content: string, language: string) => {
+  downloadFile(`agent_code_${Date.now()}.${getExtension(language)}`, content, 'text/plain');
+};
+
+// Blocks tagged with a path; a later block for the same path replaces an earlier one
+const getPathedFiles = (codeFiles: CodeFile[]): CodeFile[] =>
+  Array.from(new Map(codeFiles.filter(f => f.path).map(f => [f.path, f])).values());
+
+const handleDownloadDocx = async (content: string, title: string) => {
+  try {
+    const blob = await createDocxBlob(content, { title });
+    downloadFile(`agent_report_${Date.now()}.docx`, blob, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+  } catch (e) {
+    console.error("Failed to generate DOCX", e);
+    alert("Failed to generate DOCX. Check console.");
+  }
+};
+
+// Helper to show milliseconds as "850 ms" or "12.3s"
+const formatMs = (ms: number) => ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)}s`;
+
+// Helper to get preview of thinking (first 3 lines, or the latest 3 while streaming)
+const getThinkingPreview = (thinking: string, isStreaming: boolean): string => {
+  const lines = thinking.split('\n').filter(line => line.trim());
+  return (isStreaming ? lines.slice(-3) : lines.slice(0, 3)).join('\n');
+};
+
+/**
+ * A single step of the workflow. Memoised so that streaming updates to the
+ * running step don't re-render every other card in the list.
+ */
+const StepCard: React.FC<StepCardProps> = ({
+  step,
+  index,
+  dependsOnLabel,
+  isThinkingExpanded,
+  onToggleThinking,
+  canRerun = false,
+  onRerun,
+  files = [],
+  reviewThreshold,
+  cost,
+}) => {
+  const isStreaming = step.status === StepStatus.PROCESSING;
+  const codeFiles = useMemo(
+    () => step.result && !isStreaming ? extractCodeFiles(step.result) : [],
+    [step.result, isStreaming]
+  );
+  const pathedFiles = useMemo(() => getPathedFiles(codeFiles), [codeFiles]);
+  // Untagged code still gets the single-file download
+  const codeData = pathedFiles.length === 0 ? codeFiles[0] : undefined;
+  const isPotentialReport = codeFiles.length === 0 && step.status === StepStatus.COMPLETED && 
+    (step.outputType === 'report' ||
+     step.description.toLowerCase().includes('report') || 
+     step.description.toLowerCase().includes('document') ||
+     step.description.toLowerCase().includes('write') ||
+     step.description.toLowerCase().includes('summar') ||
+     (step.result && step.result.length > 500));
+
+  const thinking = step.thinking || '';
+  const hasThinking = thinking.trim().length > 0;
+  const isRetryable = step.status === StepStatus.FAILED || step.status === StepStatus.CANCELLED;
+  const isRerunnable = step.status === StepStatus.COMPLETED || step.status === StepStatus.SKIPPED;
+  const usage = step.usage;
+  const approx = usage?.estimated ? '~' : '';
+  // Wall-clock time once the step is over, including retries and waiting between calls
+  const elapsedMs = step.startedAt && step.completedAt ? step.completedAt - step.startedAt : undefined;
+
+  return (
+    <div
+      className={`
+        relative pl-8 pb-2 border-l-2 last:border-l-0 transition-all duration-500
+        ${step.status === StepStatus.COMPLETED ? 'border-blue-500/50' : 'border-slate-700'}
+      `}
+    >
+      {/* Status Icon */}
+      <div className={`
+        absolute -left-[9px] top-0 w-4 h-4 rounded-full flex items-center justify-center bg-slate-900 border-2
+        ${step.status === StepStatus.COMPLETED ? 'border-blue-500 text-blue-500' : ''}
+        ${step.status === StepStatus.PROCESSING ? 'border-amber-500 text-amber-500' : ''}
+        ${step.status === StepStatus.PENDING ? 'border-slate-600 text-slate-600' : ''}
+        ${step.status === StepStatus.FAILED ? 'border-red-500 text-red-500' : ''}
+        ${step.status === StepStatus.CANCELLED ? 'border-orange-500 text-orange-500' : ''}
+        ${step.status === StepStatus.SKIPPED ? 'border-slate-700 text-slate-700' : ''}
+      `}>
+          {step.status === StepStatus.COMPLETED && <div className="w-2 h-2 bg-blue-500 rounded-full" />}
+          {step.status === StepStatus.PROCESSING && <div className="w-2 h-2 bg-amber-500 rounded-full animate-pulse" />}
+          {step.status === StepStatus.PENDING && <div className="w-2 h-2 bg-slate-600 rounded-full" />}
+          {step.status === StepStatus.FAILED && <div className="w-2 h-2 bg-red-500 rounded-full" />}
+          {step.status === StepStatus.CANCELLED && <div className="w-2 h-2 bg-orange-500 rounded-full" />}
+      </div>
+
+      {/* Content Card */}
+      <div className={`
+          rounded-lg border p-4 transition-all duration-300
+          ${step.status === StepStatus.PROCESSING ? 'bg-slate-800/80 border-amber-500/30 ring-1 ring-amber-500/20' : ''}
+          ${step.status === StepStatus.COMPLETED ? 'bg-slate-800/40 border-slate-700' : ''}
+          ${step.status === StepStatus.PENDING ? 'bg-slate-900 border-slate-800 opacity-60' : ''}
+          ${step.status === StepStatus.FAILED ? 'bg-red-900/10 border-red-500/30' : ''}
+          ${step.status === StepStatus.CANCELLED ? 'bg-orange-900/10 border-orange-500/30' : ''}
+          ${step.status === StepStatus.SKIPPED ? 'bg-slate-900 border-slate-800 opacity-40' : ''}
+      `}>
+          <div className="flex items-center justify-between mb-2">
+              <div>
+                  <h4 className="font-medium text-slate-200">
+                      Step {index + 1}: {step.description}
+                  </h4>
+                  {dependsOnLabel && (
+                      <p className="text-xs text-slate-500 mt-0.5">Uses results of step{dependsOnLabel.includes(',') ? 's' : ''} {dependsOnLabel}</p>
+                  )}
+                  {step.settings?.model && (
+                      <p className="text-xs text-slate-500 mt-0.5 font-mono">{step.settings.model}</p>
+                  )}
+                  {usage && (
+                      <p
+                        className="flex items-center gap-1 text-xs text-slate-500 mt-0.5 font-mono"
+                        title={`${usage.calls} call${usage.calls === 1 ? '' : 's'}, ${formatMs(usage.durationMs)} waiting on the model${usage.estimated ? '; token counts are estimated' : ''}`}
+                      >
+                          <Timer className="w-3 h-3" />
+                          {approx}{formatTokenCount(usage.promptTokens)} in · {approx}{formatTokenCount(usage.completionTokens)} out
+                          {elapsedMs !== undefined && <> · {formatMs(elapsedMs)}</>}
+                          {usage.timeToFirstTokenMs !== undefined && <> · first token {formatMs(usage.timeToFirstTokenMs)}</>}
+                          {cost !== undefined && <> · {formatCost(cost)}</>}
+                      </p>
+                  )}
+              </div>
+              <span className="text-xs font-mono uppercase tracking-wider opacity-70">
+                  {step.status === StepStatus.PROCESSING && (
+                      <span className="flex items-center gap-1 text-amber-400">
+                          <Loader2 className="w-3 h-3 animate-spin"/>
+                          {step.attempts && step.attempts > 1
+                            ? `Retry #${step.attempts - 1}`
+                            : step.drafts?.length ? `Revising (${step.drafts.length})`
+                            : step.fixAttempts ? `Fixing code (${step.fixAttempts})`
+                            : step.continuations ? `Continuing (${step.continuations})` : 'Running'}
+                      </span>
+                  )}
+                  {step.status === StepStatus.COMPLETED && <span className="text-blue-400">Done</span>}
+                  {step.status === StepStatus.FAILED && <span className="text-red-400">Failed</span>}
+                  {step.status === StepStatus.CANCELLED && <span className="text-orange-400">Cancelled</span>}
+                  {step.status === StepStatus.SKIPPED && <span className="text-slate-500">Skipped</span>}
+              </span>
+          </div>
+
+          {/* Error Details */}
+          {step.status === StepStatus.FAILED && step.error && (
+            <div className="mb-3 flex items-start gap-2 p-3 bg-red-950/40 border border-red-500/30 rounded-md text-xs text-red-300">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <div className="min-w-0">
+                <p className="font-mono break-words">{step.error}</p>
+                {step.attempts && step.attempts > 1 && (
+                  <p className="mt-1 text-red-400/70">Gave up after {step.attempts} attempts.</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Output hit the token limit even after continuing */}
+          {step.status === StepStatus.COMPLETED && step.truncated && (
+            <div className="mb-3 flex items-start gap-2 p-3 bg-amber-950/30 border border-amber-500/30 rounded-md text-xs text-amber-300">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <p>
+                The output is incomplete: it was still cut off after {step.continuations || 0} continuation{step.continuations === 1 ? '' : 's'}.
+                Raise max output tokens in the model settings and rerun it.
+              </p>
+            </div>
+          )}
+
+          {/* Model Thinking Section */}
+          {hasThinking && (
+            <div className="mb-3">
+              <button
+                onClick={() => onToggleThinking(step.id)}
+                className="w-full flex items-center gap-2 px-3 py-2 bg-purple-900/20 hover:bg-purple-900/30 border border-purple-500/30 rounded-md transition-colors text-left group"
+              >
+                <Brain className={`w-4 h-4 text-purple-400 flex-shrink-0 ${isStreaming && !step.result ? 'animate-pulse' : ''}`} />
+                <span className="text-xs font-medium text-purple-300 flex-1">
+                  {isStreaming && !step.result ? 'Model Thinking...' : 'Model Thinking'}
+                </span>
+                {isThinkingExpanded ? (
+                  <ChevronDown className="w-4 h-4 text-purple-400 group-hover:text-purple-300" />
+                ) : (
+                  <ChevronRight className="w-4 h-4 text-purple-400 group-hover:text-purple-300" />
+                )}
+              </button>
+              
+              <div className={`mt-2 bg-purple-950/30 rounded border border-purple-500/20 overflow-hidden transition-all duration-300 ${isThinkingExpanded ? 'max-h-[1000px] overflow-y-auto custom-scrollbar' : 'max-h-[80px]'}`}>
+                <div className="p-3 text-xs text-purple-200/80 font-mono whitespace-pre-wrap">
+                  {!isThinkingExpanded && isStreaming && thinking.split('\n').filter(l => l.trim()).length > 3 && (
+                    <span className="text-purple-400/60">...{'\n'}</span>
+                  )}
+                  {isThinkingExpanded ? thinking : getThinkingPreview(thinking, isStreaming)}
+                  {!isThinkingExpanded && !isStreaming && thinking.split('\n').filter(l => l.trim()).length > 3 && (
+                    <span className="text-purple-400/60">...</span>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Result Output */}
+          {(step.result || step.status === StepStatus.PROCESSING) && (
+              <div className="mt-3 bg-slate-950/50 rounded p-3 text-sm text-slate-300 border border-slate-800/50">
+                  {step.status === StepStatus.PROCESSING && !step.result && (
+                      <div className="flex items-center gap-2 text-slate-500">
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          <span>{hasThinking ? 'Agent is reasoning...' : 'Agent is analyzing files...'}</span>
+                      </div>
+                  )}
+                  {step.result && (
+                      <div className="space-y-4">
+                          <div className="prose prose-invert prose-sm max-w-none">
+                              <ReactMarkdown>{step.result}</ReactMarkdown>
+                              {isStreaming && <span className="inline-block w-2 h-4 ml-0.5 bg-amber-400/80 animate-pulse align-middle" />}
+                          </div>
+
+                          {/* Generated files diffed against the uploads */}
+                          {!isStreaming && pathedFiles.length > 0 && (
+                            <div className="pt-2 border-t border-slate-800">
+                              <CodeChanges codeFiles={pathedFiles} files={files} />
+                            </div>
+                          )}
+
+                          {/* Sandbox runs of the generated code */}
+                          {step.executions && step.executions.length > 0 && (
+                            <div className="pt-2 border-t border-slate-800">
+                              <ExecutionLog executions={step.executions} fixAttempts={step.fixAttempts} />
+                            </div>
+                          )}
+
+                          {/* Download Buttons Section */}
+                          {!isStreaming && (codeData || isPotentialReport) && (
+                            <div className="flex flex-wrap gap-2 mt-4 pt-2 border-t border-slate-800">
+                                {codeData && (
+                                    <button
+                                        onClick={() => handleDownloadCode(codeData.code, codeData.language)}
+                                        className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium bg-blue-600/20 text-blue-400 hover:bg-blue-600/30 rounded-md transition-colors border border-blue-500/30"
+                                    >
+                                        <FileCode className="w-3.5 h-3.5" />
+                                        Download Code (.{getExtension(codeData.language)})
+                                    </button>
+                                )}
+                                
+                                {isPotentialReport && (
+                                    <button
+                                        onClick={() => step.result && handleDownloadDocx(step.result, step.description)}
+                                        className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium bg-emerald-600/20 text-emerald-400 hover:bg-emerald-600/30 rounded-md transition-colors border border-emerald-500/30"
+                                    >
+                                        <FileText className="w-3.5 h-3.5" />
+                                        Download Report (.docx)
+                                    </button>
+                                )}
+                            </div>
+                          )}
+                      </div>
+                  )}
+              </div>
+          )}
+
+          {/* Reviewer verdict; drafts stay visible while a revision streams */}
+          {(step.review || !!step.drafts?.length) && (
+            <div className="mt-3 bg-slate-950/50 rounded p-3 border border-slate-800/50">
+              <ReviewPanel review={step.review} drafts={step.drafts} threshold={reviewThreshold} />
+            </div>
+          )}
+
+          {/* Rerun Controls */}
+          {onRerun && (isRetryable || isRerunnable) && (
+            <div className="flex justify-end mt-3">
+              <button
+                onClick={() => onRerun(step.id)}
+                disabled={!canRerun}
+                title={isRetryable
+                  ? 'Run this step again'
+                  : 'Run this step again and invalidate every step that depends on it'}
+                className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+                {isRetryable ? 'Retry step' : 'Rerun from here'}
+              </button>
+            </div>
+          )}
+      </div>
+    </div>
+  );
+};
+
+export default memo(StepCard);
@@ -0,0 +1,126 @@
+import React, { useMemo, useRef } from 'react';
+import { BookTemplate, Save, Upload, Download, Trash2 } from 'lucide-react';
+import { WorkflowTemplate } from '../types';
+import { getTemplateVariables } from '../utils/templates';
+
+interface TemplatePickerProps {
+  templates: WorkflowTemplate[];
+  /** Null means the model plans the workflow. */
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  values: Record<string, string>;
+  onValuesChange: (values: Record<string, string>) => void;
+  /** Set when there is a plan on screen that can be saved. */
+  onSaveCurrent?: () => void;
+  onImport: (file: File) => void;
+  onExport: (id: string) => void;
+  onDelete: (id: string) => void;
+  disabled: boolean;
+}
+
+const TemplatePicker: React.FC<TemplatePickerProps> = ({
+  templates,
+  selectedId,
+  onSelect,
+  values,
+  onValuesChange,
+  onSaveCurrent,
+  onImport,
+  onExport,
+  onDelete,
+  disabled,
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const selected = templates.find(t => t.id === selectedId) || null;
+  const variables = useMemo(() => selected ? getTemplateVariables(selected) : [], [selected]);
+
+  const iconButton = 'p-1.5 rounded-md bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-slate-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <div className="mt-4">
+      <label htmlFor="template" className="flex items-center gap-1.5 text-sm font-medium text-slate-300 mb-2">
+        <BookTemplate className="w-4 h-4 text-blue-400" />
+        Plan
+      </label>
+      <div className="flex gap-1.5">
+        <select
+          id="template"
+          value={selectedId ?? ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          disabled={disabled}
+          className="flex-1 min-w-0 bg-slate-950/50 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+        >
+          <option value="">Let the agent plan</option>
+          {templates.map(t => (
+            <option key={t.id} value={t.id}>{t.name} ({t.steps.length} steps)</option>
+          ))}
+        </select>
+        <button
+          onClick={onSaveCurrent}
+          disabled={disabled || !onSaveCurrent}
+          title="Save the current plan as a template"
+          className={iconButton}
+        >
+          <Save className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={disabled}
+          title="Import templates from JSON"
+          className={iconButton}
+        >
+          <Upload className="w-4 h-4" />
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+        {selected && (
+          <>
+            <button onClick={() => onExport(selected.id)} title="Export this template as JSON" className={iconButton}>
+              <Download className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onDelete(selected.id)}
+              disabled={disabled}
+              title="Delete this template"
+              className={`${iconButton} hover:text-red-400`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {selected && (
+        <div className="mt-2 space-y-2">
+          {selected.description && <p className="text-xs text-slate-500">{selected.description}</p>}
+          <ol className="list-decimal list-inside text-xs text-slate-400 space-y-0.5">
+            {selected.steps.map(step => <li key={step.id} className="truncate">{step.title}</li>)}
+          </ol>
+          {variables.map(name => (
+            <label key={name} className="flex items-center justify-between gap-2 text-sm text-slate-400">
+              <span className="font-mono text-xs">{`{{${name}}}`}</span>
+              <input
+                value={values[name] ?? ''}
+                onChange={(e) => onValuesChange({ ...values, [name]: e.target.value })}
+                disabled={disabled}
+                placeholder={name}
+                className="w-40 bg-slate-950/50 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplatePicker;
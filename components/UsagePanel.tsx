@@ -0,0 +1,79 @@
+import React from 'react';
+import { Coins } from 'lucide-react';
+import { ModelUsage, PriceTable, RunBudget, WorkflowStep } from '../types';
+import { formatCost, formatTokenCount, summarizeUsage } from '../services/usage';
+
+interface UsagePanelProps {
+  steps: WorkflowStep[];
+  planUsage?: ModelUsage;
+  /** Follow-up answers not added to the workflow. */
+  followUpUsages?: (ModelUsage | undefined)[];
+  budget?: RunBudget;
+  prices: PriceTable;
+}
+
+const BudgetBar: React.FC<{ label: string; used: number; limit: number }> = ({ label, used, limit }) => {
+  const percent = Math.min(100, (used / limit) * 100);
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-[11px] text-slate-500">
+        <span>{label}</span>
+        <span className="font-mono">{Math.round(percent)}%</span>
+      </div>
+      <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full ${percent >= 90 ? 'bg-red-500' : percent >= 70 ? 'bg-amber-500' : 'bg-blue-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Tokens, model time and cost of the run so far, and how much of its budget
+ * is left.
+ */
+const UsagePanel: React.FC<UsagePanelProps> = ({ steps, planUsage, followUpUsages = [], budget, prices }) => {
+  const total = summarizeUsage([planUsage, ...steps.map(s => s.usage), ...followUpUsages], prices);
+  if (total.calls === 0) return null;
+
+  const approx = total.estimated ? '~' : '';
+  const hasPrices = Object.keys(prices).length > 0;
+
+  return (
+    <div className="px-4 py-3 bg-slate-800/30 border border-slate-700/50 rounded-lg text-xs space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-slate-400">
+        <span className="flex items-center gap-1.5 font-medium uppercase tracking-wider text-slate-500">
+          <Coins className="w-3.5 h-3.5" /> Usage
+        </span>
+        <span title={`${total.promptTokens.toLocaleString()} prompt + ${total.completionTokens.toLocaleString()} completion tokens`}>
+          <span className="font-mono text-slate-200">{approx}{formatTokenCount(total.promptTokens)}</span> in
+          {' · '}
+          <span className="font-mono text-slate-200">{approx}{formatTokenCount(total.completionTokens)}</span> out
+        </span>
+        <span><span className="font-mono text-slate-200">{total.calls}</span> call{total.calls === 1 ? '' : 's'}</span>
+        <span><span className="font-mono text-slate-200">{(total.durationMs / 1000).toFixed(1)}s</span> model time</span>
+        {hasPrices && <span className="font-mono text-slate-200">{formatCost(total.cost)}</span>}
+      </div>
+      {total.estimated && (
+        <p className="text-[11px] text-slate-500">~ Some counts are estimated; the provider didn't report usage for every call.</p>
+      )}
+      {hasPrices && total.unpricedModels.length > 0 && (
+        <p className="text-[11px] text-amber-400/80">No price for {total.unpricedModels.join(', ')}; counted as free.</p>
+      )}
+      {budget?.maxTokens && (
+        <BudgetBar
+          label={`${(total.promptTokens + total.completionTokens).toLocaleString()} of ${budget.maxTokens.toLocaleString()} budgeted tokens`}
+          used={total.promptTokens + total.completionTokens}
+          limit={budget.maxTokens}
+        />
+      )}
+      {budget?.maxCost && (
+        <BudgetBar label={`${formatCost(total.cost)} of ${formatCost(budget.maxCost)} budget`} used={total.cost} limit={budget.maxCost} />
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
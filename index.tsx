@@ -1,6 +1,14 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import { App } from './App';
+import { configureRuntime } from './services/geminiService';
+import { setDefaultContextWindow } from './services/contextBudget';
+import { recognizeText } from './services/ocr';
+import { runInSandbox } from './services/sandbox';
+
+// The shared services leave OCR and code execution to the platform
+configureRuntime({ recognizeText, runCode: runInSandbox });
+setDefaultContextWindow(Number(import.meta.env.VITE_LLM_CONTEXT_TOKENS) || undefined);
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -12,4 +20,4 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
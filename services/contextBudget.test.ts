@@ -0,0 +1,160 @@
+import { describe, expect, it, vi } from 'vitest';
+import { StepStatus, UploadedFile } from '../types';
+import { allocateBudget, buildFileContext, buildHistoryContext, estimateTokens, getSummaryBucket, splitIntoChunks, Summarizer, truncateToTokens } from './contextBudget';
+
+let nextId = 0;
+const textFile = (name: string, content: string, category: UploadedFile['category'] = 'text'): UploadedFile =>
+  ({ id: `file-${++nextId}`, name, size: content.length, content, category });
+
+// Seven characters a word at ~4 per token, so `words(n)` is about 1.75n tokens
+const words = (n: number, word = 'lorem') => Array.from({ length: n }, (_, i) => `${word}${i % 10}`).join(' ');
+
+// Answers with `maxTokens` worth of x's so the size of every summary is known
+const fakeSummarizer = () => vi.fn<Summarizer>(async (_text, _label, maxTokens) => 'x'.repeat(maxTokens * 4));
+
+describe('allocateBudget', () => {
+  it('gives small items what they need and shares the rest equally', () => {
+    expect(allocateBudget([10, 500, 1000], 610)).toEqual([10, 300, 300]);
+  });
+
+  it('gives every item its size when the budget is enough', () => {
+    expect(allocateBudget([10, 20], 1000)).toEqual([10, 20]);
+  });
+
+  it('allocates nothing without a budget', () => {
+    expect(allocateBudget([10, 20], -5)).toEqual([0, 0]);
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('keeps the start and the end and marks the cut', () => {
+    const text = `START ${'middle '.repeat(2000)} END`;
+    const truncated = truncateToTokens(text, 100);
+
+    expect(truncated.startsWith('START')).toBe(true);
+    expect(truncated.endsWith('END')).toBe(true);
+    expect(truncated).toMatch(/\[\.\.\. ~\d+ tokens omitted/);
+    expect(estimateTokens(truncated)).toBeLessThan(130);
+  });
+
+  it('leaves text that fits alone', () => {
+    expect(truncateToTokens('short', 100)).toBe('short');
+  });
+});
+
+describe('splitIntoChunks', () => {
+  it('splits at PDF page markers', () => {
+    const pages = [1, 2, 3].map(n => `--- Page ${n} ---\n${words(30)}`).join('\n');
+
+    const chunks = splitIntoChunks(pages, 70);
+
+    expect(chunks).toHaveLength(3);
+    chunks.forEach((chunk, i) => expect(chunk.startsWith(`--- Page ${i + 1} ---`)).toBe(true));
+  });
+
+  it('packs paragraphs into chunks and hard-splits an oversized one', () => {
+    const text = [words(10), words(10), 'y'.repeat(1000)].join('\n\n');
+
+    const chunks = splitIntoChunks(text, 100);
+
+    expect(chunks[0]).toBe(`${words(10)}\n\n${words(10)}`);
+    expect(chunks.slice(1)).toEqual(['y'.repeat(400), 'y'.repeat(400), 'y'.repeat(200)]);
+    chunks.forEach(chunk => expect(estimateTokens(chunk)).toBeLessThanOrEqual(100));
+  });
+});
+
+describe('getSummaryBucket', () => {
+  it('rounds down to a step of 2^(1/4)', () => {
+    expect(getSummaryBucket(1024)).toBe(1024);
+    expect(getSummaryBucket(1200)).toBe(1024);
+    expect(getSummaryBucket(1300)).toBe(1217);
+    [100, 999, 5000, 123_457].forEach(n => {
+      expect(getSummaryBucket(n)).toBeLessThanOrEqual(n);
+      expect(getSummaryBucket(n)).toBeGreaterThan(n * 0.84);
+    });
+  });
+});
+
+describe('buildFileContext', () => {
+  it('includes files that fit in full', async () => {
+    const file = textFile('notes.txt', 'hello world');
+
+    const { text, coverage } = await buildFileContext([file], 1000);
+
+    expect(text).toContain('File: notes.txt');
+    expect(text).toContain('hello world');
+    expect(coverage).toEqual([{ fileId: file.id, name: 'notes.txt', originalTokens: 3, includedTokens: 3, mode: 'full' }]);
+  });
+
+  it('truncates documents that do not fit when there is no summarizer', async () => {
+    const big = textFile('big.txt', words(2000));
+
+    const { coverage } = await buildFileContext([textFile('small.txt', 'tiny'), big], 500);
+
+    expect(coverage.map(c => c.mode)).toEqual(['full', 'truncated']);
+    expect(coverage[1].includedTokens).toBeLessThanOrEqual(520);
+  });
+
+  it('summarizes long documents chunk by chunk', async () => {
+    const summarizer = fakeSummarizer();
+    const doc = textFile('report.txt', [words(1000), words(1000), words(1000)].join('\n\n'));
+
+    const { text, coverage } = await buildFileContext([doc], 600, { summarizer, chunkTokens: 2500 });
+
+    expect(summarizer).toHaveBeenCalledTimes(3);
+    expect(summarizer.mock.calls.map(call => call[1])).toEqual([
+      'report.txt (part 1 of 3)', 'report.txt (part 2 of 3)', 'report.txt (part 3 of 3)',
+    ]);
+    expect(coverage[0].mode).toBe('summarized');
+    expect(coverage[0].includedTokens).toBeLessThanOrEqual(600);
+    expect(text).toContain('Note: summarized from');
+  });
+
+  it('reuses a summary when the budget only changes a little', async () => {
+    const summarizer = fakeSummarizer();
+    const doc = textFile('report.txt', words(1500));
+
+    await buildFileContext([doc], 1100, { summarizer });
+    await buildFileContext([doc], 1150, { summarizer });
+    expect(summarizer).toHaveBeenCalledTimes(1);
+
+    await buildFileContext([doc], 2000, { summarizer });
+    expect(summarizer).toHaveBeenCalledTimes(2);
+  });
+
+  it('truncates code instead of summarizing it', async () => {
+    const summarizer = fakeSummarizer();
+
+    const { coverage } = await buildFileContext([textFile('main.py', words(3000), 'code')], 500, { summarizer });
+
+    expect(summarizer).not.toHaveBeenCalled();
+    expect(coverage[0].mode).toBe('truncated');
+  });
+
+  it('truncates when summarizing fails, but stops when the signal is aborted', async () => {
+    const failing = vi.fn<Summarizer>(async () => { throw new Error('server error'); });
+    const { coverage } = await buildFileContext([textFile('a.txt', words(3000))], 500, { summarizer: failing });
+    expect(coverage[0].mode).toBe('truncated');
+
+    const controller = new AbortController();
+    const aborting = vi.fn<Summarizer>(async () => {
+      controller.abort();
+      throw new Error('Request was aborted.');
+    });
+    await expect(buildFileContext([textFile('b.txt', words(3000))], 500, { summarizer: aborting, signal: controller.signal }))
+      .rejects.toThrow('Request was aborted.');
+  });
+});
+
+describe('buildHistoryContext', () => {
+  const step = (id: string, result: string) => ({ id, description: `Step ${id}`, status: StepStatus.COMPLETED, result });
+
+  it('keeps the newest result intact and compresses older ones', () => {
+    const history = buildHistoryContext([step('1', words(500, 'old')), step('2', words(200, 'new'))], 600);
+    const [older, newest] = history.split('\n---\n');
+
+    expect(newest).toContain(words(200, 'new'));
+    expect(older).toContain('tokens omitted');
+    expect(estimateTokens(history)).toBeLessThan(650);
+  });
+});
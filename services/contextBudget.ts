@@ -0,0 +1,328 @@
+import { FileCoverage, UploadedFile, WorkflowStep } from "../types";
+import { ImagePart } from "./providers/types";
+import { parseDataUrl } from "./providers/content";
+import { classifyError } from "./errors";
+import { getFilePath } from "../utils/fileTree";
+
+/**
+ * Rough token estimate (~4 characters per token for English text and code).
+ * Good enough to decide what fits; the exact count depends on the tokenizer.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const tokensToChars = (tokens: number): number => Math.max(0, Math.floor(tokens * 4));
+
+/**
+ * Context windows by model id pattern, most specific first.
+ */
+const MODEL_CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/gemini-(1\.5|2\.\d)/i, 1_000_000],
+  [/gpt-4\.1/i, 1_000_000],
+  [/gpt-4o|gpt-4-turbo|o[134](-mini)?/i, 128_000],
+  [/qwen3/i, 32_768],
+  [/llama-?3\.[1-3]|llama3\.[1-3]/i, 128_000],
+  [/mock/i, 8_192],
+];
+
+const DEFAULT_CONTEXT_WINDOW = 32_768;
+
+const contextWindowOverrides = new Map<string, number>();
+// From VITE_LLM_CONTEXT_TOKENS in the app, LLM_CONTEXT_TOKENS in the CLI
+let configuredDefault: number | undefined;
+
+/**
+ * Context window for every model without an override of its own.
+ */
+export const setDefaultContextWindow = (tokens: number | undefined) => {
+  configuredDefault = tokens && tokens > 0 ? tokens : undefined;
+};
+
+/**
+ * Override the context window used for a model (e.g. a local server started
+ * with a smaller `--ctx-size`). Pass undefined to go back to the default.
+ */
+export const setModelContextWindow = (model: string, tokens: number | undefined) => {
+  if (tokens && tokens > 0) contextWindowOverrides.set(model, tokens);
+  else contextWindowOverrides.delete(model);
+};
+
+export const getModelContextWindow = (model: string): number => {
+  const override = contextWindowOverrides.get(model);
+  if (override) return override;
+
+  if (configuredDefault) return configuredDefault;
+
+  return MODEL_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+};
+
+/**
+ * Keep the start and the end of a text, which usually carry the most
+ * context (imports/intro and the conclusion), and mark what was cut.
+ */
+export const truncateToTokens = (text: string, maxTokens: number): string => {
+  if (estimateTokens(text) <= maxTokens) return text;
+  const budget = tokensToChars(maxTokens);
+  const head = Math.floor(budget * 0.7);
+  const tail = Math.max(0, budget - head);
+  const omitted = estimateTokens(text.slice(head, text.length - tail));
+  return `${text.slice(0, head)}\n\n[... ~${omitted} tokens omitted to fit the context window ...]\n\n${tail ? text.slice(-tail) : ''}`;
+};
+
+/**
+ * Split text into chunks of at most `maxTokens`, preferring the page markers
+ * written by extractTextFromPDF, then paragraph boundaries.
+ */
+export const splitIntoChunks = (text: string, maxTokens: number): string[] => {
+  const units = /\n--- Page \d+ ---\n/.test(`\n${text}`)
+    ? text.split(/(?=--- Page \d+ ---)/)
+    : text.split(/\n{2,}/);
+
+  const chunks: string[] = [];
+  let current = "";
+  units.forEach(unit => {
+    if (current && estimateTokens(current + unit) > maxTokens) {
+      chunks.push(current);
+      current = "";
+    }
+    // A single oversized unit is hard-split
+    if (estimateTokens(unit) > maxTokens) {
+      const size = tokensToChars(maxTokens);
+      for (let i = 0; i < unit.length; i += size) chunks.push(unit.slice(i, i + size));
+      return;
+    }
+    current += (current ? "\n\n" : "") + unit;
+  });
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * Water-filling split of `budget` over items of the given sizes: small items
+ * get everything they need, the rest is shared equally among the larger ones.
+ */
+export const allocateBudget = (sizes: number[], budget: number): number[] => {
+  const allocation = sizes.map(() => 0);
+  let remaining = Math.max(0, budget);
+  let open = sizes.map((_, i) => i);
+
+  while (open.length > 0 && remaining > 0) {
+    const share = Math.floor(remaining / open.length);
+    const fitting = open.filter(i => sizes[i] - allocation[i] <= share);
+    if (fitting.length === 0) {
+      open.forEach(i => { allocation[i] += share; });
+      break;
+    }
+    fitting.forEach(i => {
+      remaining -= sizes[i] - allocation[i];
+      allocation[i] = sizes[i];
+    });
+    open = open.filter(i => !fitting.includes(i));
+  }
+  return allocation;
+};
+
+/** Summarises `text` to about `maxTokens`; provided by the service layer. */
+export type Summarizer = (text: string, label: string, maxTokens: number) => Promise<string>;
+
+/** Recognises the text in an image given as a data URL. */
+export type TextRecognizer = (dataUrl: string) => Promise<string>;
+
+// What providers roughly charge for one image; only used for budgeting
+export const IMAGE_TOKEN_ESTIMATE = 800;
+
+export interface FileContextOptions {
+  /** Map-reduce summarise long documents instead of truncating them. */
+  summarizer?: Summarizer;
+  /** Chunk size for map-reduce summarisation. */
+  chunkTokens?: number;
+  /** Return images as parts for a vision-capable model. */
+  includeImages?: boolean;
+  /** Used for images when they can't be sent as images. */
+  ocr?: TextRecognizer;
+  /** Signal the summarizer runs under; a summary failing after it fires stops the build instead of truncating. */
+  signal?: AbortSignal;
+}
+
+const isBinary = (file: UploadedFile) =>
+  typeof file.content === 'string' && file.content.startsWith('data:');
+
+const formatFile = (file: UploadedFile, body: string, note = ""): string =>
+  `\nFile: ${getFilePath(file)}\nType: ${file.category}${note}\nContent:\n${body}\n---\n`;
+
+// OCR is expensive, so an image is read once for the plan and every step
+const ocrCache = new Map<string, string>();
+// Summaries by file and size bucket; see getSummaryBucket
+const summaryCache = new Map<string, string>();
+
+/**
+ * Size to summarise a file to when it may take up `maxTokens`: the nearest
+ * step of 2^(1/4) below it. Every step of a run leaves a slightly different
+ * budget for the files, and this lets them share one summary, at the cost of
+ * using up to ~16% less of the budget than they could.
+ */
+export const getSummaryBucket = (maxTokens: number): number =>
+  Math.floor(2 ** (Math.floor(Math.log2(maxTokens) * 4) / 4));
+
+const recognizeFile = async (file: UploadedFile, ocr: TextRecognizer): Promise<string> => {
+  const cached = ocrCache.get(file.id);
+  if (cached !== undefined) return cached;
+  const text = await ocr(file.content as string);
+  ocrCache.set(file.id, text);
+  return text;
+};
+
+const summarizeFile = async (
+  file: UploadedFile,
+  text: string,
+  maxTokens: number,
+  summarizer: Summarizer,
+  chunkTokens: number
+): Promise<string> => {
+  const target = getSummaryBucket(maxTokens);
+  const cacheKey = `${file.id}:${target}`;
+  const cached = summaryCache.get(cacheKey);
+  if (cached) return cached;
+
+  // Map: summarise each chunk to its share of the budget
+  const chunks = splitIntoChunks(text, chunkTokens);
+  const perChunk = Math.max(64, Math.floor(target / chunks.length));
+  const partials: string[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    partials.push(await summarizer(chunks[i], `${getFilePath(file)} (part ${i + 1} of ${chunks.length})`, perChunk));
+  }
+
+  // Reduce: one more pass if the joined summaries still don't fit
+  let summary = partials.join('\n\n');
+  if (estimateTokens(summary) > target) {
+    summary = await summarizer(summary, `${getFilePath(file)} (combined summaries)`, target);
+  }
+  summary = truncateToTokens(summary, target);
+
+  summaryCache.set(cacheKey, summary);
+  return summary;
+};
+
+/**
+ * Render the uploaded files into at most `budgetTokens` of prompt text and
+ * report how much of each file made it in. Images come back as separate
+ * parts when `includeImages` is set, otherwise as their OCR text.
+ */
+export const buildFileContext = async (
+  files: UploadedFile[],
+  budgetTokens: number,
+  options: FileContextOptions = {}
+): Promise<{ text: string; coverage: FileCoverage[]; images: ImagePart[] }> => {
+  const { summarizer, chunkTokens = 4000, includeImages = false, ocr, signal } = options;
+  const imageFiles = files.filter(f => f.content && isBinary(f));
+
+  // Text-only models get what OCR can read from the images instead
+  const recognized = new Map<string, string>();
+  if (!includeImages && ocr) {
+    for (const f of imageFiles) {
+      try {
+        const ocrText = await recognizeFile(f, ocr);
+        if (ocrText) recognized.set(f.id, ocrText);
+      } catch (error) {
+        console.warn(`OCR of ${f.name} failed:`, error);
+      }
+    }
+  }
+
+  const bodies = new Map<string, string>();
+  files.forEach(f => {
+    if (!f.content) return;
+    const body = isBinary(f) ? recognized.get(f.id) : f.content as string;
+    if (body !== undefined) bodies.set(f.id, body);
+  });
+  const textFiles = files.filter(f => bodies.has(f.id));
+  const sizes = textFiles.map(f => estimateTokens(bodies.get(f.id) as string));
+  const imageTokens = includeImages ? imageFiles.length * IMAGE_TOKEN_ESTIMATE : 0;
+  const allocation = allocateBudget(sizes, budgetTokens - imageTokens);
+
+  const coverage: FileCoverage[] = [];
+  const images: ImagePart[] = [];
+  let text = "";
+
+  for (const f of files) {
+    if (!f.content) continue;
+
+    const image = isBinary(f) ? parseDataUrl(f.content as string) : null;
+    if (image && includeImages) {
+      images.push(image);
+      text += `\n[Image: ${getFilePath(f)} (${image.mimeType}) - attached as image ${images.length}]\n`;
+      coverage.push({ fileId: f.id, name: getFilePath(f), originalTokens: IMAGE_TOKEN_ESTIMATE, includedTokens: IMAGE_TOKEN_ESTIMATE, mode: 'image' });
+      continue;
+    }
+
+    const content = bodies.get(f.id);
+    if (content === undefined) {
+      const mimeType = image?.mimeType || 'binary';
+      text += `\n[File Attachment: ${getFilePath(f)} (${mimeType}) - the model cannot view images and no text was recognised]\n`;
+      coverage.push({ fileId: f.id, name: getFilePath(f), originalTokens: 0, includedTokens: 0, mode: 'omitted' });
+      continue;
+    }
+
+    const index = textFiles.indexOf(f);
+    const originalTokens = sizes[index];
+    const allowed = allocation[index];
+    const fromOcr = recognized.has(f.id);
+    const ocrNote = fromOcr ? `\nNote: text recognised from the image by OCR, may contain errors` : "";
+    const report = (includedTokens: number, mode: FileCoverage['mode']): FileCoverage =>
+      ({ fileId: f.id, name: getFilePath(f), originalTokens, includedTokens, mode, ...(fromOcr && { ocr: true }) });
+
+    if (originalTokens <= allowed) {
+      text += formatFile(f, content, ocrNote);
+      coverage.push(report(originalTokens, 'full'));
+      continue;
+    }
+
+    if (allowed < 32) {
+      text += `\n[File: ${getFilePath(f)} - omitted, no context budget left]\n`;
+      coverage.push(report(0, 'omitted'));
+      continue;
+    }
+
+    // Code loses too much when paraphrased, so only prose gets summarised
+    if (summarizer && f.category !== 'code') {
+      try {
+        const summary = await summarizeFile(f, content, allowed, summarizer, chunkTokens);
+        text += formatFile(f, summary, `${ocrNote}\nNote: summarized from ~${originalTokens} tokens to fit the context window`);
+        coverage.push(report(estimateTokens(summary), 'summarized'));
+        continue;
+      } catch (error) {
+        // SDKs name their abort errors differently, so ask the signal
+        if (classifyError(error, signal) === 'aborted') throw error;
+        console.warn(`Summarizing ${f.name} failed, truncating instead:`, error);
+      }
+    }
+
+    const truncated = truncateToTokens(content, allowed);
+    text += formatFile(f, truncated, `${ocrNote}\nNote: truncated from ~${originalTokens} tokens to fit the context window`);
+    coverage.push(report(estimateTokens(truncated), 'truncated'));
+  }
+
+  return { text, coverage, images };
+};
+
+/**
+ * Render dependency results into at most `budgetTokens`. The most recent
+ * result is kept as intact as possible; older ones are compressed first.
+ */
+export const buildHistoryContext = (steps: WorkflowStep[], budgetTokens: number): string => {
+  const entries = steps.map(s => `PREVIOUS STEP: "${s.description}"\nRESULT: ${s.result}\n`);
+  const sizes = entries.map(estimateTokens);
+  const total = sizes.reduce((sum, n) => sum + n, 0);
+  if (total <= budgetTokens) return entries.join('\n---\n');
+
+  // Newest first: give the latest result what it needs, share the rest
+  const remaining = [...entries].reverse();
+  const remainingSizes = [...sizes].reverse();
+  const newestShare = Math.min(remainingSizes[0], Math.floor(budgetTokens * 0.6));
+  const olderAllocation = allocateBudget(remainingSizes.slice(1), budgetTokens - newestShare);
+  const allocation = [newestShare, ...olderAllocation];
+
+  return remaining
+    .map((entry, i) => truncateToTokens(entry, allocation[i]))
+    .reverse()
+    .join('\n---\n');
+};
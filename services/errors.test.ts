@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BudgetExceededError, classifyError, getErrorStatus, StepExecutionError, withRetry } from './errors';
+
+// Helper for an SDK-style error with an HTTP status
+const httpError = (status: number, message = `HTTP ${status}`) => Object.assign(new Error(message), { status });
+
+describe('getErrorStatus', () => {
+  it('finds the status where each SDK puts it', () => {
+    expect(getErrorStatus(httpError(429))).toBe(429);
+    expect(getErrorStatus({ httpResponse: { status: 503 } })).toBe(503);
+    expect(getErrorStatus({ code: 400 })).toBe(400);
+    expect(getErrorStatus({ code: 'ECONNRESET' })).toBeUndefined();
+    expect(getErrorStatus('boom')).toBeUndefined();
+  });
+});
+
+describe('classifyError', () => {
+  it.each([
+    [httpError(429), 'transient'],
+    [httpError(503), 'transient'],
+    [httpError(400, 'rate limit in the message does not matter'), 'fatal'],
+    [httpError(401), 'fatal'],
+    [new Error('Connection error.'), 'transient'],
+    [new Error('fetch failed'), 'transient'],
+    [new Error('connect ECONNREFUSED 127.0.0.1:11434'), 'transient'],
+    [new Error('Request timed out'), 'transient'],
+    [new Error('Invalid API key'), 'fatal'],
+    [new DOMException('Aborted', 'AbortError'), 'aborted'],
+  ])('classifies %s as %s', (error, kind) => {
+    expect(classifyError(error)).toBe(kind);
+  });
+
+  it('treats any error after the signal fired as an abort, whatever its name', () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(classifyError(new Error('Request was aborted.'), controller.signal)).toBe('aborted');
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('retries transient errors and reports each retry', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(new Error('fetch failed'))
+      .mockResolvedValue('ok');
+    const onRetry = vi.fn();
+
+    await expect(withRetry(fn, { baseDelayMs: 1, onRetry })).resolves.toBe('ok');
+
+    expect(fn.mock.calls.map(call => call[0])).toEqual([1, 2, 3]);
+    expect(onRetry.mock.calls.map(call => call[0])).toEqual([2, 3]);
+  });
+
+  it('fails at once on a fatal error', async () => {
+    const fn = vi.fn().mockRejectedValue(httpError(401, 'Invalid API key'));
+
+    const error = await withRetry(fn, { baseDelayMs: 1 }).catch(e => e);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(StepExecutionError);
+    expect(error).toMatchObject({ message: 'Invalid API key', kind: 'fatal', attempts: 1, status: 401 });
+  });
+
+  it('gives up after the last retry', async () => {
+    const fn = vi.fn().mockRejectedValue(httpError(429));
+
+    const error = await withRetry(fn, { baseDelayMs: 1, maxRetries: 2 }).catch(e => e);
+
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(error).toMatchObject({ kind: 'transient', attempts: 3, status: 429 });
+  });
+
+  it('passes a spent budget through without retrying', async () => {
+    const budgetError = new BudgetExceededError('Token budget reached');
+    const fn = vi.fn().mockRejectedValue(budgetError);
+
+    await expect(withRetry(fn, { baseDelayMs: 1 })).rejects.toBe(budgetError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting for the next attempt when aborted', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockImplementation(async () => {
+      setTimeout(() => controller.abort(), 10);
+      throw httpError(503);
+    });
+
+    await expect(withRetry(fn, { baseDelayMs: 60_000, signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,110 @@
+export type ErrorKind = 'transient' | 'fatal' | 'aborted';
+
+const TRANSIENT_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504, 522, 524, 529]);
+
+const TRANSIENT_MESSAGE = /rate.?limit|too many requests|overloaded|timed? ?out|timeout|temporar|unavailable|network|connection error|failed to fetch|fetch failed|socket|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN/i;
+
+/**
+ * Every SDK reports HTTP status differently: OpenAI and Gemini use `status`,
+ * Hugging Face nests it under `httpResponse.status`.
+ */
+export const getErrorStatus = (error: unknown): number | undefined => {
+  if (!error || typeof error !== 'object') return undefined;
+  const e = error as { status?: unknown; code?: unknown; httpResponse?: { status?: unknown } };
+  const status = e.status ?? e.httpResponse?.status ?? e.code;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error ?? 'Unknown error');
+
+/**
+ * Decide whether an error is worth retrying. Rate limits, timeouts, 5xx and
+ * dropped connections are transient; bad requests, auth and validation
+ * problems are fatal and retrying would only burn quota.
+ */
+export const classifyError = (error: unknown, signal?: AbortSignal): ErrorKind => {
+  if (signal?.aborted) return 'aborted';
+  if (error instanceof Error && error.name === 'AbortError') return 'aborted';
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) return TRANSIENT_STATUS.has(status) ? 'transient' : 'fatal';
+
+  return TRANSIENT_MESSAGE.test(getErrorMessage(error)) ? 'transient' : 'fatal';
+};
+
+/**
+ * Thrown by the service layer when a model call finally fails.
+ */
+export class StepExecutionError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: ErrorKind,
+    public readonly attempts: number,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'StepExecutionError';
+  }
+}
+
+/**
+ * Thrown instead of making a model call the run's token or cost budget can't cover.
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export interface RetryOptions {
+  /** Extra attempts after the first one. */
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  /** Called before each retry, e.g. to discard partially streamed output. */
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+/**
+ * Run `fn`, retrying transient failures with exponential backoff and jitter.
+ * Fatal errors and aborts are rethrown immediately as StepExecutionError
+ * (aborts keep their original error so callers can detect them).
+ */
+export const withRetry = async <T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> => {
+  const { maxRetries = 3, baseDelayMs = 1000, maxDelayMs = 20000, signal, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      const kind = classifyError(error, signal);
+      // Passed through as is so callers can tell a spent budget from a failed call
+      if (kind === 'aborted' || error instanceof BudgetExceededError) throw error;
+
+      if (kind === 'fatal' || attempt > maxRetries) {
+        throw new StepExecutionError(getErrorMessage(error), kind, attempt, getErrorStatus(error));
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delayMs = Math.round(backoff / 2 + Math.random() * backoff / 2);
+      console.warn(`Transient error on attempt ${attempt}, retrying in ${delayMs}ms:`, error);
+      onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,31 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FollowUpMessage, ModelUsage } from '../types';
+import { answerFollowUp, configureProvider } from './geminiService';
+import { createBudgetGuard } from './usage';
+import { BudgetExceededError } from './errors';
+
+const question: FollowUpMessage = { id: 'q', role: 'user', content: 'What does main.py do?', createdAt: 0 };
+const files = [{ id: 'f', name: 'main.py', size: 8, content: 'print(1)', category: 'code' as const }];
+
+describe('answerFollowUp', () => {
+  beforeEach(() => configureProvider({ provider: 'mock', model: 'mock' }));
+
+  it('reports what the answer used', async () => {
+    const onUsage = vi.fn<(usage: ModelUsage) => void>();
+
+    await answerFollowUp(files, [], [question], { onUsage, budget: createBudgetGuard({ maxTokens: 100_000 }, {}, []) });
+
+    expect(onUsage).toHaveBeenCalledTimes(1);
+    expect(onUsage.mock.calls[0][0]).toMatchObject({ model: 'mock', calls: 1 });
+    expect(onUsage.mock.calls[0][0].promptTokens).toBeGreaterThan(0);
+  });
+
+  it('fails without calling the model once the run budget is spent', async () => {
+    const spent: ModelUsage = { model: 'mock', promptTokens: 900, completionTokens: 100, calls: 3, durationMs: 0 };
+    const onUsage = vi.fn();
+
+    await expect(answerFollowUp(files, [], [question], { onUsage, budget: createBudgetGuard({ maxTokens: 1000 }, {}, [spent]) }))
+      .rejects.toBeInstanceOf(BudgetExceededError);
+    expect(onUsage).not.toHaveBeenCalled();
+  });
+});
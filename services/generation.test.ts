@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { isTruncated, needsMoreLookahead, resolveSettings, stitchContinuation } from './generation';
+
+describe('stitchContinuation', () => {
+  const previous = 'The parser reads tokens one at a time and keeps a stack of open brackets so';
+
+  it('drops the text the model repeated from the end of the cut-off answer', () => {
+    expect(stitchContinuation(previous, 'a stack of open brackets so that it can report the line.'))
+      .toBe(' that it can report the line.');
+  });
+
+  it('keeps a short accidental overlap', () => {
+    expect(stitchContinuation('return a;\n}', '}\nexport default a;')).toBe('}\nexport default a;');
+  });
+
+  it('appends a continuation that repeats nothing as is', () => {
+    expect(stitchContinuation(previous, ' that it can report the line.')).toBe(' that it can report the line.');
+  });
+
+  it('drops a new thinking block but keeps one that continues', () => {
+    expect(stitchContinuation(previous, '<think>Where was I?</think>\n that it can report the line.'))
+      .toBe('that it can report the line.');
+    expect(stitchContinuation('<think>First the lexer', ', then the parser.</think>Done'))
+      .toBe(', then the parser.</think>Done');
+  });
+
+  it('drops a code fence the model reopened inside a cut-off block', () => {
+    const cutOff = 'Here is the fix:\n```python\ndef parse(text):\n    tokens = lex(text)\n';
+
+    expect(stitchContinuation(cutOff, '```python\n    return build(tokens)\n```'))
+      .toBe('    return build(tokens)\n```');
+    expect(stitchContinuation(`${cutOff}    return tree\n\`\`\`\n`, '```bash\npython main.py\n```'))
+      .toBe('```bash\npython main.py\n```');
+  });
+});
+
+describe('needsMoreLookahead', () => {
+  it('waits for enough text to line up the overlap', () => {
+    expect(needsMoreLookahead('previous', 'short')).toBe(true);
+    expect(needsMoreLookahead('previous', 'x'.repeat(400))).toBe(false);
+  });
+
+  it('waits for a new thinking block to close', () => {
+    expect(needsMoreLookahead('previous', `<think>${'x'.repeat(500)}`)).toBe(true);
+    expect(needsMoreLookahead('previous', `<think>${'x'.repeat(500)}</think>`)).toBe(false);
+  });
+});
+
+describe('resolveSettings', () => {
+  it('lets later layers win and skips unset values', () => {
+    expect(resolveSettings(
+      { temperature: 0.7, maxTokens: 4096, stopSequences: ['END'] },
+      undefined,
+      { temperature: 0.2, model: '', stopSequences: [] },
+      { maxTokens: undefined, thinking: false },
+    )).toEqual({ temperature: 0.2, maxTokens: 4096, stopSequences: ['END'], thinking: false });
+  });
+});
+
+describe('isTruncated', () => {
+  it('only treats the length limit as a cut-off', () => {
+    expect(isTruncated('length')).toBe(true);
+    expect(isTruncated('stop')).toBe(false);
+    expect(isTruncated(undefined)).toBe(false);
+  });
+});
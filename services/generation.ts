@@ -0,0 +1,92 @@
+import { GenerationSettings } from "../types";
+import { ChatOptions } from "./providers";
+
+export const DEFAULT_GENERATION_SETTINGS = {
+  temperature: 0.7,
+  maxTokens: 4096,
+  thinking: true,
+  verifyCode: true,
+  maxFixAttempts: 2,
+  review: 'off',
+  reviewThreshold: 7,
+  maxRevisions: 1,
+} satisfies GenerationSettings;
+
+/** Follow-up requests allowed per step when the output hits the token limit. */
+export const MAX_CONTINUATIONS = 3;
+
+// How much of a continuation is held back to line it up with what came before
+const CONTINUATION_LOOKAHEAD_CHARS = 400;
+// Shorter overlaps are likely coincidence (a repeated "}" or blank line)
+const MIN_OVERLAP_CHARS = 12;
+const MAX_OVERLAP_CHARS = 2000;
+
+export const CONTINUE_PROMPT = `Your previous answer was cut off by the length limit.
+Continue EXACTLY where it stopped, starting with the next character.
+Do not repeat anything already written, do not restart or reopen code blocks, and add no preamble.`;
+
+/**
+ * Layers settings on top of each other: later layers win, unset fields
+ * fall through.
+ */
+export const resolveSettings = (...layers: (GenerationSettings | undefined)[]): GenerationSettings => {
+  const resolved: GenerationSettings = {};
+  layers.forEach(layer => {
+    if (!layer) return;
+    (Object.keys(layer) as (keyof GenerationSettings)[]).forEach(key => {
+      const value = layer[key];
+      if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return;
+      (resolved as Record<string, unknown>)[key] = value;
+    });
+  });
+  return resolved;
+};
+
+export const toChatOptions = (settings: GenerationSettings): ChatOptions => ({
+  model: settings.model,
+  temperature: settings.temperature,
+  maxTokens: settings.maxTokens,
+  topP: settings.topP,
+  stop: settings.stopSequences,
+  thinking: settings.thinking,
+});
+
+export const isTruncated = (finishReason?: string): boolean => finishReason === 'length';
+
+const hasOpenThinking = (text: string): boolean =>
+  text.lastIndexOf('<think>') > text.lastIndexOf('</think>');
+
+const isInsideCodeBlock = (text: string): boolean =>
+  ((text.match(/^[ \t]*```/gm) || []).length % 2) === 1;
+
+/**
+ * Whether the start of a continuation is still too short to be stitched on
+ * reliably (a thinking block the model added has to be complete to drop it).
+ */
+export const needsMoreLookahead = (previous: string, head: string): boolean => {
+  if (!hasOpenThinking(previous) && head.trimStart().startsWith('<think>') && !head.includes('</think>')) return true;
+  return head.length < CONTINUATION_LOOKAHEAD_CHARS;
+};
+
+/**
+ * The part of a continuation's first chunk to append to `previous`: drops a
+ * fresh thinking block, a reopened code fence and any text the model
+ * repeated from the end of the cut-off answer.
+ */
+export const stitchContinuation = (previous: string, head: string): string => {
+  let next = head;
+
+  if (!hasOpenThinking(previous)) {
+    next = next.replace(/^\s*<think>[\s\S]*?<\/think>\s*/, '');
+  }
+  if (isInsideCodeBlock(previous)) {
+    next = next.replace(/^\s*```[^\n`]*\n/, '');
+  }
+
+  // Longest suffix of `previous` that the continuation starts with
+  const maxOverlap = Math.min(previous.length, next.length, MAX_OVERLAP_CHARS);
+  for (let size = maxOverlap; size >= MIN_OVERLAP_CHARS; size--) {
+    if (previous.endsWith(next.slice(0, size))) return next.slice(size);
+  }
+  return next;
+};
@@ -0,0 +1,24 @@
+/**
+ * Pull the JSON payload out of a model response that may contain <think>
+ * blocks, markdown fences or chatter around it. Throws an Error whose message
+ * says what is wrong, for callers to wrap in their validation error.
+ */
+export const extractJson = (response: string): unknown => {
+  const text = response
+    .replace(/<think>[\s\S]*?<\/think>/g, '')
+    .replace(/```(?:json)?/gi, '')
+    .trim();
+
+  const starts = [text.indexOf('{'), text.indexOf('[')].filter(i => i !== -1);
+  if (starts.length === 0) {
+    throw new Error("Response does not contain a JSON object");
+  }
+  const start = Math.min(...starts);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(`Response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`);
+  }
+};
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearStoredKeys, getStoredKeysState, loadPlainKeys, saveKeys, unlockKeys, WrongPassphraseError } from './keyStore';
+
+const storage = new Map<string, string>();
+
+beforeEach(() => {
+  storage.clear();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+});
+
+describe('saveKeys', () => {
+  it('stores keys in the clear without a passphrase, dropping empty ones', async () => {
+    await saveKeys({ openai: 'sk-plain', gemini: ' ' });
+
+    expect(getStoredKeysState()).toBe('plain');
+    expect(loadPlainKeys()).toEqual({ openai: 'sk-plain' });
+    await expect(unlockKeys('ignored')).resolves.toEqual({ openai: 'sk-plain' });
+  });
+
+  it('encrypts keys under a passphrase', async () => {
+    await saveKeys({ openai: 'sk-secret' }, 'correct horse');
+
+    expect(getStoredKeysState()).toBe('encrypted');
+    expect([...storage.values()].join()).not.toContain('sk-secret');
+    expect(loadPlainKeys()).toEqual({});
+    await expect(unlockKeys('correct horse')).resolves.toEqual({ openai: 'sk-secret' });
+  });
+
+  it('uses a new salt and IV for every save', async () => {
+    await saveKeys({ openai: 'sk-secret' }, 'pass');
+    const first = [...storage.values()][0];
+    await saveKeys({ openai: 'sk-secret' }, 'pass');
+
+    expect([...storage.values()][0]).not.toBe(first);
+  });
+});
+
+describe('unlockKeys', () => {
+  it('rejects a wrong passphrase', async () => {
+    await saveKeys({ openai: 'sk-secret' }, 'right');
+
+    await expect(unlockKeys('wrong')).rejects.toBeInstanceOf(WrongPassphraseError);
+  });
+
+  it('returns nothing once the keys are cleared', async () => {
+    await saveKeys({ openai: 'sk-secret' }, 'right');
+    clearStoredKeys();
+
+    expect(getStoredKeysState()).toBe('none');
+    await expect(unlockKeys('right')).resolves.toEqual({});
+  });
+});
@@ -0,0 +1,123 @@
+import { PriceTable } from "../types";
+import { ProviderId } from "./providers";
+
+export type ApiKeys = Partial<Record<ProviderId, string>>;
+
+/**
+ * Provider choice made in the settings dialog; unset fields fall back to the
+ * VITE_LLM_* environment variables.
+ */
+export interface ProviderSettings {
+  provider?: ProviderId;
+  model?: string;
+  baseUrl?: string;
+  /** Used for the cost of runs; models missing from it count as free. */
+  prices?: PriceTable;
+}
+
+type StoredKeys =
+  | { version: 1; encrypted: false; keys: ApiKeys }
+  | { version: 1; encrypted: true; salt: string; iv: string; data: string };
+
+export type StoredKeysState = 'none' | 'plain' | 'encrypted';
+
+const SETTINGS_KEY = 'gemini-agent-workflow:provider';
+const KEYS_KEY = 'gemini-agent-workflow:api-keys';
+const PBKDF2_ITERATIONS = 250_000;
+
+/**
+ * Thrown by unlockKeys when the passphrase doesn't decrypt the stored keys.
+ */
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch {
+    return null;
+  }
+};
+
+export const loadProviderSettings = (): ProviderSettings => readJson<ProviderSettings>(SETTINGS_KEY) || {};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const getStoredKeysState = (): StoredKeysState => {
+  const stored = readJson<StoredKeys>(KEYS_KEY);
+  if (!stored) return 'none';
+  return stored.encrypted ? 'encrypted' : 'plain';
+};
+
+/**
+ * Keys saved without a passphrase; empty when nothing is saved or the keys
+ * are encrypted.
+ */
+export const loadPlainKeys = (): ApiKeys => {
+  const stored = readJson<StoredKeys>(KEYS_KEY);
+  return stored && 'keys' in stored ? stored.keys : {};
+};
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Decrypt keys saved with a passphrase.
+ */
+export const unlockKeys = async (passphrase: string): Promise<ApiKeys> => {
+  const stored = readJson<StoredKeys>(KEYS_KEY);
+  if (!stored) return {};
+  if ('keys' in stored) return stored.keys;
+
+  const key = await deriveKey(passphrase, fromBase64(stored.salt));
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.data));
+    return JSON.parse(new TextDecoder().decode(plain)) as ApiKeys;
+  } catch {
+    // AES-GCM fails authentication when the derived key is wrong
+    throw new WrongPassphraseError();
+  }
+};
+
+/**
+ * Save keys in local storage, encrypted with AES-GCM under a key derived from
+ * the passphrase when one is given. Without a passphrase they are readable by
+ * anything running on this origin.
+ */
+export const saveKeys = async (keys: ApiKeys, passphrase?: string): Promise<void> => {
+  const cleaned = Object.fromEntries(Object.entries(keys).filter(([, value]) => value?.trim())) as ApiKeys;
+  let stored: StoredKeys;
+
+  if (passphrase) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt);
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(cleaned)));
+    stored = { version: 1, encrypted: true, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  } else {
+    stored = { version: 1, encrypted: false, keys: cleaned };
+  }
+  localStorage.setItem(KEYS_KEY, JSON.stringify(stored));
+};
+
+export const clearStoredKeys = () => {
+  localStorage.removeItem(KEYS_KEY);
+};
@@ -0,0 +1,39 @@
+import { createWorker, Worker } from 'tesseract.js';
+// Served from our own build so OCR works offline and without a CDN
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import engDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+
+export type OcrImage = string | HTMLCanvasElement | Blob;
+
+let workerPromise: Promise<Worker> | null = null;
+
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    workerPromise = (async () => {
+      const response = await fetch(engDataUrl);
+      if (!response.ok) throw new Error(`Failed to load OCR language data (${response.status})`);
+      const data = new Uint8Array(await response.arrayBuffer());
+
+      return createWorker([{ code: 'eng', data }], 1, {
+        workerPath: workerUrl,
+        corePath: coreUrl,
+        workerBlobURL: false,
+      });
+    })().catch(error => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+};
+
+/**
+ * Recognise the text in an image (data URL, canvas or blob). The worker and
+ * its language data are loaded on first use and reused afterwards.
+ */
+export const recognizeText = async (image: OcrImage): Promise<string> => {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image);
+  return data.text.trim();
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_PLAN_STEPS, parsePlan, PlanValidationError, validatePlan } from './planSchema';
+
+// Helper to get the issues a plan is rejected with
+const issuesOf = (data: unknown): string[] => {
+  try {
+    validatePlan(data);
+  } catch (error) {
+    if (error instanceof PlanValidationError) return error.issues;
+    throw error;
+  }
+  throw new Error('The plan was accepted');
+};
+
+describe('parsePlan', () => {
+  it('reads the plan out of thinking, fences and chatter', () => {
+    const response = `<think>Two steps {"steps": []}</think>Here is the plan:
+\`\`\`json
+{"steps": [
+  {"id": "s1", "title": "Read the parser", "instructions": "List the bugs", "outputType": "analysis", "targetFiles": ["parser.py"], "dependsOn": []},
+  {"id": "s2", "title": "Fix the bugs", "outputType": "code", "dependsOn": ["s1"]}
+]}
+\`\`\``;
+
+    expect(parsePlan(response)).toEqual([
+      { id: 's1', title: 'Read the parser', instructions: 'List the bugs', outputType: 'analysis', targetFiles: ['parser.py'], dependsOn: [] },
+      { id: 's2', title: 'Fix the bugs', instructions: 'Fix the bugs', outputType: 'code', targetFiles: [], dependsOn: ['s1'] },
+    ]);
+  });
+
+  it('rejects a response without JSON', () => {
+    expect(() => parsePlan('I cannot help with that.')).toThrow(PlanValidationError);
+  });
+});
+
+describe('validatePlan', () => {
+  it('chains a bare array of strings in order', () => {
+    const steps = validatePlan(['Summarize the files', 'Find bugs', 'Write the report']);
+
+    expect(steps.map(s => [s.id, s.outputType, s.dependsOn])).toEqual([
+      ['s1', 'analysis', []],
+      ['s2', 'analysis', ['s1']],
+      ['s3', 'analysis', ['s1', 's2']],
+    ]);
+  });
+
+  it('accepts numeric ids and dependencies', () => {
+    const steps = validatePlan([{ id: 1, title: 'A' }, { id: 2, title: 'B', dependsOn: [1] }]);
+
+    expect(steps.map(s => [s.id, s.dependsOn])).toEqual([['1', []], ['2', ['1']]]);
+  });
+
+  it('lists every problem of every step', () => {
+    expect(issuesOf({ steps: [{ id: '', title: ' ', outputType: 'poem', targetFiles: 'a.py' }, 42] })).toEqual([
+      'Step 1: "id" must be a non-empty string',
+      'Step 1: "title" must be a non-empty string',
+      'Step 1: "outputType" must be one of analysis, code, report, data',
+      'Step 1: "targetFiles" must be an array of strings',
+      'Step 2 must be an object',
+    ]);
+  });
+
+  it('rejects plans without steps or with too many', () => {
+    expect(issuesOf({ plan: [] })).toEqual(['Expected an object with a "steps" array']);
+    expect(issuesOf([])).toEqual([`Plan must have between 1 and ${MAX_PLAN_STEPS} steps, got 0`]);
+    expect(issuesOf(Array.from({ length: MAX_PLAN_STEPS + 1 }, (_, i) => `Step ${i}`))[0]).toMatch(/got 11$/);
+  });
+
+  it('rejects duplicate ids and unknown or self dependencies', () => {
+    expect(issuesOf([{ id: 'a', title: 'A' }, { id: 'a', title: 'B' }])).toEqual(['Duplicate step id "a"']);
+    expect(issuesOf([{ id: 'a', title: 'A', dependsOn: ['a', 'zz'] }])).toEqual([
+      'Step "a" depends on itself',
+      'Step "a" depends on unknown step "zz"',
+    ]);
+  });
+
+  it('rejects dependency cycles', () => {
+    expect(issuesOf([
+      { id: 'a', title: 'A', dependsOn: ['c'] },
+      { id: 'b', title: 'B', dependsOn: ['a'] },
+      { id: 'c', title: 'C', dependsOn: ['b'] },
+    ])).toEqual(['Step dependencies contain a cycle']);
+  });
+});
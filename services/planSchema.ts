@@ -0,0 +1,168 @@
+import { PlannedStep, StepOutputType } from "../types";
+import { extractJson } from "./jsonResponse";
+import { getErrorMessage } from "./errors";
+
+export const STEP_OUTPUT_TYPES: StepOutputType[] = ['analysis', 'code', 'report', 'data'];
+
+export const MIN_PLAN_STEPS = 1;
+export const MAX_PLAN_STEPS = 10;
+
+/**
+ * Shape the planner is asked to return. Kept next to the validator so the
+ * prompt and the checks cannot drift apart.
+ */
+export const PLAN_SCHEMA_DESCRIPTION = `Return a JSON object of exactly this shape:
+{"steps": [{"id": "s1", "title": "Analyze the parser for bugs", "instructions": "Read parser.py and list every bug with its line", "outputType": "analysis", "targetFiles": ["parser.py"], "dependsOn": []}]}
+
+Field rules:
+- id: short unique id such as "s1", "s2"
+- title: one-line, actionable step description
+- instructions: what exactly to do in this step and what to look for
+- outputType: one of ${STEP_OUTPUT_TYPES.join(', ')}
+- targetFiles: paths of uploaded files this step works on, exactly as listed in the file tree (may be empty)
+- dependsOn: ids of EARLIER steps whose results this step needs (may be empty)`;
+
+/**
+ * Thrown when the model's plan cannot be parsed or fails validation.
+ * `issues` lists every problem found so it can be fed back to the model.
+ */
+export class PlanValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid workflow plan: ${issues.join('; ')}`);
+    this.name = 'PlanValidationError';
+  }
+}
+
+const extractPlanJson = (response: string): unknown => {
+  try {
+    return extractJson(response);
+  } catch (error) {
+    throw new PlanValidationError([getErrorMessage(error)]);
+  }
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+/**
+ * Check the dependency graph only points at known steps and has no cycles.
+ */
+const validateDependencies = (steps: PlannedStep[], issues: string[]) => {
+  const ids = new Set(steps.map(s => s.id));
+  steps.forEach(step => {
+    step.dependsOn.forEach(dep => {
+      if (dep === step.id) issues.push(`Step "${step.id}" depends on itself`);
+      else if (!ids.has(dep)) issues.push(`Step "${step.id}" depends on unknown step "${dep}"`);
+    });
+  });
+  if (issues.length > 0) return;
+
+  const byId = new Map(steps.map(s => [s.id, s]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (id: string): boolean => {
+    if (state.get(id) === 'done') return true;
+    if (state.get(id) === 'visiting') return false;
+    state.set(id, 'visiting');
+    const ok = byId.get(id)!.dependsOn.every(visit);
+    state.set(id, 'done');
+    return ok;
+  };
+  if (!steps.every(s => visit(s.id))) {
+    issues.push("Step dependencies contain a cycle");
+  }
+};
+
+/**
+ * Parse and validate a planner response into typed steps.
+ * Accepts `{ "steps": [...] }`, a bare array of step objects, or - for
+ * older/smaller models - a bare array of strings, which is upgraded to
+ * analysis steps that run in order.
+ */
+export const parsePlan = (response: string): PlannedStep[] => validatePlan(extractPlanJson(response));
+
+/**
+ * Validate already-parsed plan data (`{ steps }` or a bare array), e.g. an
+ * imported template.
+ */
+export const validatePlan = (data: unknown): PlannedStep[] => {
+  const rawSteps: unknown = Array.isArray(data)
+    ? data
+    : (data as { steps?: unknown } | null)?.steps;
+
+  if (!Array.isArray(rawSteps)) {
+    throw new PlanValidationError(['Expected an object with a "steps" array']);
+  }
+  if (rawSteps.length < MIN_PLAN_STEPS || rawSteps.length > MAX_PLAN_STEPS) {
+    throw new PlanValidationError([`Plan must have between ${MIN_PLAN_STEPS} and ${MAX_PLAN_STEPS} steps, got ${rawSteps.length}`]);
+  }
+
+  const issues: string[] = [];
+  const steps: PlannedStep[] = rawSteps.map((raw, index): PlannedStep => {
+    const fallbackId = `s${index + 1}`;
+
+    if (typeof raw === 'string') {
+      if (!raw.trim()) issues.push(`Step ${index + 1} is empty`);
+      // Dependencies are filled in below, once every step has its id
+      return { id: fallbackId, title: raw.trim(), instructions: raw.trim(), outputType: 'analysis', targetFiles: [], dependsOn: [] };
+    }
+
+    if (!raw || typeof raw !== 'object') {
+      issues.push(`Step ${index + 1} must be an object`);
+      return { id: fallbackId, title: '', instructions: '', outputType: 'analysis', targetFiles: [], dependsOn: [] };
+    }
+
+    const step = raw as Record<string, unknown>;
+    const label = `Step ${index + 1}`;
+
+    const id = typeof step.id === 'string' || typeof step.id === 'number' ? String(step.id).trim() : '';
+    if (!id) issues.push(`${label}: "id" must be a non-empty string`);
+
+    const title = typeof step.title === 'string' ? step.title.trim() : '';
+    if (!title) issues.push(`${label}: "title" must be a non-empty string`);
+
+    if (step.instructions !== undefined && typeof step.instructions !== 'string') {
+      issues.push(`${label}: "instructions" must be a string`);
+    }
+    const instructions = typeof step.instructions === 'string' && step.instructions.trim()
+      ? step.instructions.trim()
+      : title;
+
+    const outputType = step.outputType ?? 'analysis';
+    if (!STEP_OUTPUT_TYPES.includes(outputType as StepOutputType)) {
+      issues.push(`${label}: "outputType" must be one of ${STEP_OUTPUT_TYPES.join(', ')}`);
+    }
+
+    const targetFiles = step.targetFiles ?? [];
+    if (!isStringArray(targetFiles)) issues.push(`${label}: "targetFiles" must be an array of strings`);
+
+    const dependsOn = step.dependsOn ?? [];
+    if (!isStringArray(dependsOn) && !(Array.isArray(dependsOn) && dependsOn.every(d => typeof d === 'number'))) {
+      issues.push(`${label}: "dependsOn" must be an array of step ids`);
+    }
+
+    return {
+      id: id || fallbackId,
+      title,
+      instructions,
+      outputType: outputType as StepOutputType,
+      targetFiles: isStringArray(targetFiles) ? targetFiles : [],
+      dependsOn: Array.isArray(dependsOn) ? dependsOn.map(String) : [],
+    };
+  });
+
+  // Plain strings run in order and see every earlier result, like steps added by hand
+  rawSteps.forEach((raw, index) => {
+    if (typeof raw === 'string') steps[index].dependsOn = steps.slice(0, index).map(s => s.id);
+  });
+
+  const seen = new Set<string>();
+  steps.forEach(s => {
+    if (seen.has(s.id)) issues.push(`Duplicate step id "${s.id}"`);
+    seen.add(s.id);
+  });
+
+  if (issues.length === 0) validateDependencies(steps, issues);
+  if (issues.length > 0) throw new PlanValidationError(issues);
+
+  return steps;
+};
@@ -0,0 +1,47 @@
+import { ChatMessage, ImagePart, ProviderConfig } from "./types";
+
+// Model ids that accept image input, for providers that serve mixed models
+const VISION_MODEL_PATTERN = /gpt-4o|gpt-4\.1|gpt-5|\bo[34]\b|gemini|vision|[-_.]vl\b|-vl-|llava|pixtral|gemma-?3|llama-?4|minicpm-v|moondream/i;
+
+export const supportsVision = (config: ProviderConfig): boolean =>
+  config.vision ?? VISION_MODEL_PATTERN.test(config.model);
+
+/**
+ * The text of a message, ignoring any image parts.
+ */
+export const getMessageText = (content: ChatMessage['content']): string =>
+  typeof content === 'string'
+    ? content
+    : content.map(part => part.type === 'text' ? part.text : '').join('\n');
+
+// Models that switch reasoning off with a soft switch in the prompt (Qwen3 and its derivatives)
+const SOFT_THINKING_SWITCH_PATTERN = /qwen3/i;
+
+/**
+ * OpenAI-style APIs have no common "no thinking" flag, so for models that
+ * support it the soft switch is appended to the last user message instead.
+ */
+export const applyThinkingSwitch = (messages: ChatMessage[], model: string, thinking?: boolean): ChatMessage[] => {
+  if (thinking !== false || !SOFT_THINKING_SWITCH_PATTERN.test(model)) return messages;
+  const last = messages.map(m => m.role).lastIndexOf('user');
+  if (last === -1) return messages;
+  return messages.map((m, i) => {
+    if (i !== last) return m;
+    return {
+      ...m,
+      content: typeof m.content === 'string'
+        ? `${m.content}\n/no_think`
+        : [...m.content, { type: 'text' as const, text: '/no_think' }],
+    };
+  });
+};
+
+export const toDataUrl = (image: ImagePart): string => `data:${image.mimeType};base64,${image.data}`;
+
+/**
+ * Split a `data:` URL as produced by FileReader.readAsDataURL into an image part.
+ */
+export const parseDataUrl = (dataUrl: string): ImagePart | null => {
+  const match = dataUrl.match(/^data:(.*?);base64,(.*)$/s);
+  return match ? { type: 'image', mimeType: match[1], data: match[2] } : null;
+};
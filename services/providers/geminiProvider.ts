@@ -0,0 +1,105 @@
+import { GoogleGenAI, Content, GenerateContentConfig, GenerateContentResponseUsageMetadata, Part } from "@google/genai";
+import { ChatChunk, ChatMessage, ChatOptions, ChatResult, LLMProvider, ProviderConfig, TokenUsage } from "./types";
+import { getMessageText, supportsVision } from "./content";
+
+const toGeminiParts = (content: ChatMessage['content']): Part[] =>
+  typeof content === 'string'
+    ? [{ text: content }]
+    : content.map(part => part.type === 'text'
+      ? { text: part.text }
+      : { inlineData: { mimeType: part.mimeType, data: part.data } });
+
+/**
+ * Gemini has no "system" role inside `contents`, so system messages are
+ * folded into `systemInstruction` and assistant turns become "model" turns.
+ */
+const toGeminiRequest = (messages: ChatMessage[], options: ChatOptions) => {
+  const systemText = messages
+    .filter(m => m.role === 'system')
+    .map(m => getMessageText(m.content))
+    .join('\n\n');
+
+  const contents: Content[] = messages
+    .filter(m => m.role !== 'system')
+    .map(m => ({
+      role: m.role === 'assistant' ? 'model' : 'user',
+      parts: toGeminiParts(m.content),
+    }));
+
+  const config: GenerateContentConfig = {
+    temperature: options.temperature,
+    maxOutputTokens: options.maxTokens,
+    topP: options.topP,
+    stopSequences: options.stop?.length ? options.stop : undefined,
+    abortSignal: options.signal,
+  };
+  if (options.thinking === false) config.thinkingConfig = { thinkingBudget: 0 };
+  if (systemText) config.systemInstruction = systemText;
+  if (options.jsonMode) config.responseMimeType = 'application/json';
+
+  return { contents, config };
+};
+
+/**
+ * Gemini's finish reasons mapped onto the OpenAI names the rest of the app uses.
+ */
+const toFinishReason = (reason?: string): string | undefined => {
+  switch (reason) {
+    case undefined: return undefined;
+    case 'STOP': return 'stop';
+    case 'MAX_TOKENS': return 'length';
+    case 'SAFETY':
+    case 'RECITATION':
+    case 'PROHIBITED_CONTENT':
+    case 'BLOCKLIST':
+    case 'SPII': return 'content_filter';
+    default: return reason.toLowerCase();
+  }
+};
+
+/**
+ * Thinking tokens are billed as output but reported separately.
+ */
+const toUsage = (usage?: GenerateContentResponseUsageMetadata): TokenUsage | undefined =>
+  usage ? {
+    promptTokens: usage.promptTokenCount ?? 0,
+    completionTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+  } : undefined;
+
+export const createGeminiProvider = (config: ProviderConfig): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+  return {
+    id: 'gemini',
+    model: config.model,
+    capabilities: { streaming: true, vision: supportsVision(config), jsonMode: true },
+
+    async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+      const response = await ai.models.generateContent({
+        model: options.model || config.model,
+        ...toGeminiRequest(messages, options),
+      });
+
+      return {
+        content: response.text || "",
+        finishReason: toFinishReason(response.candidates?.[0]?.finishReason),
+        usage: toUsage(response.usageMetadata),
+      };
+    },
+
+    async *chatStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<ChatChunk> {
+      const stream = await ai.models.generateContentStream({
+        model: options.model || config.model,
+        ...toGeminiRequest(messages, options),
+      });
+
+      for await (const chunk of stream) {
+        yield {
+          delta: chunk.text || "",
+          finishReason: toFinishReason(chunk.candidates?.[0]?.finishReason),
+          usage: toUsage(chunk.usageMetadata),
+        };
+      }
+    },
+  };
+};
@@ -0,0 +1,65 @@
+import { InferenceClient } from "@huggingface/inference";
+import { ChatChunk, ChatMessage, ChatOptions, ChatResult, LLMProvider, ProviderConfig, TokenUsage } from "./types";
+import { applyThinkingSwitch, supportsVision, toDataUrl } from "./content";
+
+const toHfMessages = (messages: ChatMessage[]) =>
+  messages.map(m => ({
+    role: m.role,
+    content: typeof m.content === 'string'
+      ? m.content
+      : m.content.map(part => part.type === 'text'
+        ? { type: 'text' as const, text: part.text }
+        : { type: 'image_url' as const, image_url: { url: toDataUrl(part) } }),
+  }));
+
+const toUsage = (usage?: { prompt_tokens?: number; completion_tokens?: number } | null): TokenUsage | undefined =>
+  usage ? { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 } : undefined;
+
+export const createHuggingFaceProvider = (config: ProviderConfig): LLMProvider => {
+  const client = new InferenceClient(config.apiKey);
+
+  return {
+    id: 'huggingface',
+    model: config.model,
+    capabilities: { streaming: true, vision: supportsVision(config), jsonMode: false },
+
+    async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+      const completion = await client.chatCompletion({
+        model: options.model || config.model,
+        messages: toHfMessages(applyThinkingSwitch(messages, options.model || config.model, options.thinking)),
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        top_p: options.topP,
+        stop: options.stop?.length ? options.stop : undefined,
+      }, { signal: options.signal });
+
+      const choice = completion.choices[0];
+      return {
+        content: choice?.message?.content || "",
+        finishReason: choice?.finish_reason,
+        usage: toUsage(completion.usage),
+      };
+    },
+
+    async *chatStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<ChatChunk> {
+      const stream = client.chatCompletionStream({
+        model: options.model || config.model,
+        messages: toHfMessages(applyThinkingSwitch(messages, options.model || config.model, options.thinking)),
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        top_p: options.topP,
+        stop: options.stop?.length ? options.stop : undefined,
+        stream_options: { include_usage: true },
+      }, { signal: options.signal });
+
+      for await (const chunk of stream) {
+        const choice = chunk.choices[0];
+        yield {
+          delta: choice?.delta?.content || "",
+          finishReason: choice?.finish_reason || undefined,
+          usage: toUsage(chunk.usage),
+        };
+      }
+    },
+  };
+};
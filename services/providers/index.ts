@@ -0,0 +1,118 @@
+import { createHuggingFaceProvider } from "./huggingFaceProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAIProvider } from "./openAIProvider";
+import { createMockProvider } from "./mockProvider";
+import { LLMProvider, ProviderConfig, ProviderId } from "./types";
+
+export * from "./types";
+export { getMessageText, parseDataUrl } from "./content";
+
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  huggingface: "Qwen/Qwen3-32B:groq",
+  gemini: "gemini-2.5-flash",
+  openai: "gpt-4o-mini",
+  mock: "mock",
+};
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  huggingface: "Hugging Face",
+  gemini: "Google Gemini",
+  openai: "OpenAI / compatible",
+  mock: "Mock (offline)",
+};
+
+export const PROVIDER_IDS = Object.keys(DEFAULT_MODELS) as ProviderId[];
+
+const isProviderId = (value: string | undefined): value is ProviderId =>
+  !!value && (PROVIDER_IDS as string[]).includes(value);
+
+/** Environment variables, e.g. `import.meta.env` in the app or `process.env` in the CLI. */
+export type EnvVars = Record<string, string | boolean | undefined>;
+
+const readEnv = (env: EnvVars, prefix: string, name: string): string | undefined => {
+  const value = env[`${prefix}${name}`];
+  return typeof value === 'string' && value ? value : undefined;
+};
+
+/** Provider-specific key variable, without the prefix; LLM_API_KEY overrides it. */
+export const API_KEY_ENV_VARS: Partial<Record<ProviderId, string>> = {
+  huggingface: 'HF_TOKEN',
+  gemini: 'GEMINI_API_KEY',
+  openai: 'OPENAI_API_KEY',
+};
+
+const envKeyFor = (env: EnvVars, prefix: string, provider: ProviderId): string | undefined => {
+  const name = API_KEY_ENV_VARS[provider];
+  return name ? readEnv(env, prefix, name) : undefined;
+};
+
+/**
+ * Builds the provider configuration from environment variables. The app reads
+ * them from Vite (prefix `VITE_`), the CLI from the process (no prefix):
+ *   LLM_PROVIDER  huggingface | gemini | openai | mock
+ *   LLM_MODEL     model id understood by that provider
+ *   LLM_BASE_URL  OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+ *   LLM_API_KEY   overrides the provider-specific key variable
+ *   LLM_VISION    true | false, whether the model accepts images
+ */
+export const getProviderConfigFromEnv = (env: EnvVars, prefix = 'VITE_'): ProviderConfig => {
+  const providerName = readEnv(env, prefix, 'LLM_PROVIDER');
+  const provider = isProviderId(providerName) ? providerName : 'huggingface';
+  const vision = readEnv(env, prefix, 'LLM_VISION');
+
+  return {
+    provider,
+    model: readEnv(env, prefix, 'LLM_MODEL') || DEFAULT_MODELS[provider],
+    apiKey: readEnv(env, prefix, 'LLM_API_KEY') || envKeyFor(env, prefix, provider),
+    baseUrl: readEnv(env, prefix, 'LLM_BASE_URL'),
+    vision: vision ? vision === 'true' : undefined,
+  };
+};
+
+/**
+ * The env configuration with the user's choices from the settings dialog on
+ * top. A key entered by the user wins over one from the environment; env
+ * model and base URL only apply while the env provider is selected.
+ */
+export const resolveProviderConfig = (
+  env: EnvVars,
+  overrides: { provider?: ProviderId; model?: string; baseUrl?: string },
+  keys: Partial<Record<ProviderId, string>> = {},
+  prefix = 'VITE_'
+): ProviderConfig => {
+  const fromEnv = getProviderConfigFromEnv(env, prefix);
+  const provider = overrides.provider || fromEnv.provider;
+  const sameAsEnv = provider === fromEnv.provider;
+
+  return {
+    ...fromEnv,
+    provider,
+    model: overrides.model || (sameAsEnv ? fromEnv.model : DEFAULT_MODELS[provider]),
+    baseUrl: overrides.baseUrl || (sameAsEnv ? fromEnv.baseUrl : undefined),
+    apiKey: keys[provider] || (sameAsEnv ? fromEnv.apiKey : envKeyFor(env, prefix, provider)),
+    vision: sameAsEnv ? fromEnv.vision : undefined,
+  };
+};
+
+/**
+ * Local OpenAI-compatible servers usually run without a key; the hosted
+ * APIs refuse every request without one.
+ */
+export const requiresApiKey = (config: ProviderConfig): boolean => {
+  switch (config.provider) {
+    case 'huggingface':
+    case 'gemini': return true;
+    case 'openai': return !config.baseUrl;
+    default: return false;
+  }
+};
+
+export const createProvider = (config: ProviderConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'huggingface': return createHuggingFaceProvider(config);
+    case 'gemini': return createGeminiProvider(config);
+    case 'openai': return createOpenAIProvider(config);
+    case 'mock': return createMockProvider(config);
+    default: throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+};
@@ -0,0 +1,62 @@
+import { ChatChunk, ChatMessage, ChatOptions, ChatResult, LLMProvider, ProviderConfig } from "./types";
+import { getMessageText } from "./content";
+
+const MOCK_PLAN = {
+  steps: [
+    { id: "s1", title: "Analyze the uploaded files and summarize their purpose", instructions: "Summarize each file.", outputType: "analysis", targetFiles: [], dependsOn: [] },
+    { id: "s2", title: "Identify problems, gaps or bugs in the content", instructions: "List concrete issues.", outputType: "analysis", targetFiles: [], dependsOn: ["s1"] },
+    { id: "s3", title: "Produce the final output that resolves the identified problems", instructions: "Write the solution.", outputType: "report", targetFiles: [], dependsOn: ["s1", "s2"] },
+  ],
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  // Removed once the timer fires, or a long stream piles up listeners on the signal
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Offline provider for UI work and demos. It never hits the network: planning
+ * prompts get a fixed plan, everything else gets a short canned answer that
+ * quotes the task so the step cards have something recognisable to render.
+ */
+const respond = (messages: ChatMessage[]): string => {
+  const prompt = getMessageText(messages[messages.length - 1]?.content || "");
+
+  if (prompt.includes('"steps"')) {
+    return JSON.stringify(MOCK_PLAN);
+  }
+
+  const task = prompt.match(/Task: "([^"]*)"/)?.[1] || "the current task";
+  return `<think>Mock provider: pretending to reason about "${task}".</think>\n` +
+    `## Result\n\nThis is a mock response for **${task}**. ` +
+    `Configure a real provider to get actual output.`;
+};
+
+export const createMockProvider = (config: ProviderConfig): LLMProvider => ({
+  id: 'mock',
+  model: config.model || 'mock',
+  capabilities: { streaming: true, vision: false, jsonMode: true },
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+    await delay(300, options.signal);
+    return { content: respond(messages), finishReason: 'stop' };
+  },
+
+  async *chatStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<ChatChunk> {
+    const tokens = respond(messages).split(/(\s+)/);
+    for (const token of tokens) {
+      await delay(20, options.signal);
+      yield { delta: token };
+    }
+    yield { delta: "", finishReason: 'stop' };
+  },
+});
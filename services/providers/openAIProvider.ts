@@ -0,0 +1,90 @@
+import OpenAI from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type { CompletionUsage } from "openai/resources/completions";
+import { ChatChunk, ChatMessage, ChatOptions, ChatResult, LLMProvider, ProviderConfig, TokenUsage } from "./types";
+import { applyThinkingSwitch, getMessageText, supportsVision, toDataUrl } from "./content";
+
+/**
+ * Only user turns may carry images in the chat completions API.
+ */
+const toOpenAIMessages = (messages: ChatMessage[]): ChatCompletionMessageParam[] =>
+  messages.map(m => {
+    if (m.role !== 'user' || typeof m.content === 'string') {
+      return { role: m.role, content: getMessageText(m.content) };
+    }
+    return {
+      role: 'user',
+      content: m.content.map(part => part.type === 'text'
+        ? { type: 'text' as const, text: part.text }
+        : { type: 'image_url' as const, image_url: { url: toDataUrl(part) } }),
+    };
+  });
+
+const toUsage = (usage?: CompletionUsage | null): TokenUsage | undefined =>
+  usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined;
+
+/**
+ * Works against api.openai.com as well as any server that speaks the same
+ * protocol (Ollama at http://localhost:11434/v1, llama.cpp's llama-server,
+ * vLLM, LM Studio, ...). Local servers usually ignore the key, but the SDK
+ * requires one to be set.
+ */
+export const createOpenAIProvider = (config: ProviderConfig): LLMProvider => {
+  const client = new OpenAI({
+    apiKey: config.apiKey || 'not-needed',
+    baseURL: config.baseUrl || undefined,
+    dangerouslyAllowBrowser: true,
+    // withRetry decides what to retry; SDK retries on top would multiply attempts and backoff
+    maxRetries: 0,
+  });
+
+  return {
+    id: 'openai',
+    model: config.model,
+    capabilities: { streaming: true, vision: supportsVision(config), jsonMode: true },
+
+    async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+      const completion = await client.chat.completions.create({
+        model: options.model || config.model,
+        messages: toOpenAIMessages(applyThinkingSwitch(messages, options.model || config.model, options.thinking)),
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        top_p: options.topP,
+        // The API accepts at most four stop sequences
+        stop: options.stop?.length ? options.stop.slice(0, 4) : undefined,
+        response_format: options.jsonMode ? { type: 'json_object' } : undefined,
+      }, { signal: options.signal });
+
+      const choice = completion.choices[0];
+      return {
+        content: choice?.message?.content || "",
+        finishReason: choice?.finish_reason,
+        usage: toUsage(completion.usage),
+      };
+    },
+
+    async *chatStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<ChatChunk> {
+      const stream = await client.chat.completions.create({
+        model: options.model || config.model,
+        messages: toOpenAIMessages(applyThinkingSwitch(messages, options.model || config.model, options.thinking)),
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        top_p: options.topP,
+        // The API accepts at most four stop sequences
+        stop: options.stop?.length ? options.stop.slice(0, 4) : undefined,
+        stream: true,
+        // Adds a final chunk with no choices that carries the usage
+        stream_options: { include_usage: true },
+      }, { signal: options.signal });
+
+      for await (const chunk of stream) {
+        const choice = chunk.choices[0];
+        yield {
+          delta: choice?.delta?.content || "",
+          finishReason: choice?.finish_reason || undefined,
+          usage: toUsage(chunk.usage),
+        };
+      }
+    },
+  };
+};
@@ -0,0 +1,90 @@
+export type ProviderId = 'huggingface' | 'gemini' | 'openai' | 'mock';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface TextPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImagePart {
+  type: 'image';
+  mimeType: string;
+  /** Base64 data without the `data:` prefix. */
+  data: string;
+}
+
+export type ContentPart = TextPart | ImagePart;
+
+export interface ChatMessage {
+  role: ChatRole;
+  /** Plain text, or text plus images for vision-capable providers. */
+  content: string | ContentPart[];
+}
+
+export interface ChatOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+  /** False turns the model's reasoning phase off where the backend allows it. */
+  thinking?: boolean;
+  /** Ask the backend for a bare JSON response when it supports it. */
+  jsonMode?: boolean;
+  /** Aborts the underlying HTTP request / stream. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Token counts as reported by the backend.
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  /** Includes reasoning tokens where the backend bills them as output. */
+  completionTokens: number;
+}
+
+export interface ChatResult {
+  content: string;
+  /** In OpenAI's vocabulary whatever the backend: "stop", "length", ... */
+  finishReason?: string;
+  /** Missing when the backend doesn't report usage. */
+  usage?: TokenUsage;
+}
+
+export interface ChatChunk {
+  delta: string;
+  finishReason?: string;
+  /** Usage of the whole call so far; the last one reported in a stream is the total. */
+  usage?: TokenUsage;
+}
+
+export interface ProviderCapabilities {
+  streaming: boolean;
+  vision: boolean;
+  jsonMode: boolean;
+}
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  model: string;
+  apiKey?: string;
+  /** Base URL for OpenAI-compatible servers (Ollama, llama.cpp, vLLM, ...). */
+  baseUrl?: string;
+  /** Whether the model accepts images; guessed from the model id when unset. */
+  vision?: boolean;
+}
+
+/**
+ * A chat backend. generateWorkflowPlan / executeWorkflowStep only talk to this
+ * interface, so swapping Hugging Face for Gemini or a local server is purely
+ * a configuration change.
+ */
+export interface LLMProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  readonly capabilities: ProviderCapabilities;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult>;
+  chatStream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk>;
+}
@@ -0,0 +1,104 @@
+import { ReviewIssueSeverity, StepReview } from "../types";
+import { extractJson } from "./jsonResponse";
+import { getErrorMessage } from "./errors";
+
+export const REVIEW_CRITERIA = [
+  { name: 'goal', question: "Does the result do what the task and the user's goal ask for?" },
+  { name: 'correctness', question: 'Is it accurate and consistent with the input files and earlier results (no invented facts, bugs or wrong references)?' },
+  { name: 'completeness', question: 'Does it cover everything the task requires, without placeholders, omissions or truncation?' },
+  { name: 'clarity', question: 'Is it well organised and ready to use as is (clean formatting, complete code, finished document)?' },
+];
+
+const SEVERITIES: ReviewIssueSeverity[] = ['major', 'minor'];
+
+/**
+ * Shape the reviewer is asked to return. Kept next to the validator so the
+ * prompt and the checks cannot drift apart.
+ */
+export const REVIEW_SCHEMA_DESCRIPTION = `Score the result from 0 (unusable) to 10 (nothing to improve) on each criterion:
+${REVIEW_CRITERIA.map(c => `- ${c.name}: ${c.question}`).join('\n')}
+
+Return a JSON object of exactly this shape:
+{"score": 6, "summary": "One or two sentences on the overall quality", "criteria": [{"name": "goal", "score": 8, "comment": "..."}], "issues": [{"severity": "major", "description": "What is wrong and how to fix it"}]}
+
+Field rules:
+- score: overall score from 0 to 10; a result with any major issue must not score above 6
+- criteria: one entry per criterion above, in that order
+- issues: concrete, actionable problems (may be empty); severity is ${SEVERITIES.join(' or ')}`;
+
+/**
+ * Thrown when the reviewer's answer cannot be parsed or fails validation.
+ */
+export class ReviewValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid review: ${issues.join('; ')}`);
+    this.name = 'ReviewValidationError';
+  }
+}
+
+const isScore = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 10;
+
+/**
+ * Parse and validate a reviewer response. Issues given as plain strings are
+ * accepted as minor issues, and a missing overall score is the average of
+ * the criteria.
+ */
+export const parseReview = (response: string): StepReview => {
+  let data: unknown;
+  try {
+    data = extractJson(response);
+  } catch (error) {
+    throw new ReviewValidationError([getErrorMessage(error)]);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ReviewValidationError(['Expected a JSON object']);
+  }
+
+  const raw = data as { score?: unknown; summary?: unknown; criteria?: unknown; issues?: unknown };
+  const problems: string[] = [];
+
+  const criteria: StepReview['criteria'] = [];
+  if (raw.criteria !== undefined && !Array.isArray(raw.criteria)) problems.push('"criteria" must be an array');
+  (Array.isArray(raw.criteria) ? raw.criteria : []).forEach((item, i) => {
+    const { name, score, comment } = (item ?? {}) as { name?: unknown; score?: unknown; comment?: unknown };
+    if (typeof name !== 'string' || !isScore(score)) {
+      problems.push(`criteria[${i}] needs a "name" and a "score" from 0 to 10`);
+      return;
+    }
+    criteria.push({ name, score, comment: typeof comment === 'string' && comment.trim() ? comment.trim() : undefined });
+  });
+
+  const issues: StepReview['issues'] = [];
+  if (raw.issues !== undefined && !Array.isArray(raw.issues)) problems.push('"issues" must be an array');
+  (Array.isArray(raw.issues) ? raw.issues : []).forEach((item, i) => {
+    if (typeof item === 'string') {
+      if (item.trim()) issues.push({ severity: 'minor', description: item.trim() });
+      return;
+    }
+    const { severity, description } = (item ?? {}) as { severity?: unknown; description?: unknown };
+    if (typeof description !== 'string' || !description.trim()) {
+      problems.push(`issues[${i}] needs a "description"`);
+      return;
+    }
+    issues.push({
+      severity: SEVERITIES.includes(severity as ReviewIssueSeverity) ? severity as ReviewIssueSeverity : 'minor',
+      description: description.trim(),
+    });
+  });
+
+  let score = raw.score;
+  if (score === undefined && criteria.length > 0) {
+    score = Math.round(criteria.reduce((sum, c) => sum + c.score, 0) / criteria.length * 10) / 10;
+  }
+  if (!isScore(score)) problems.push('"score" must be a number from 0 to 10');
+
+  if (problems.length > 0) throw new ReviewValidationError(problems);
+
+  return {
+    score: score as number,
+    summary: typeof raw.summary === 'string' ? raw.summary.trim() : '',
+    criteria,
+    issues,
+  };
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { StepStatus, WorkflowStep } from '../types';
+import { restoreInterruptedSteps } from './runStore';
+import { getReadySteps } from './workflowGraph';
+
+const step = (id: string, status: StepStatus, patch: Partial<WorkflowStep> = {}): WorkflowStep =>
+  ({ id, description: `Step ${id}`, status, ...patch });
+
+describe('restoreInterruptedSteps', () => {
+  it('resumes from the first step that did not complete', () => {
+    const steps = restoreInterruptedSteps([
+      step('s1', StepStatus.COMPLETED, { result: 'done' }),
+      step('s2', StepStatus.FAILED, { error: 'Rate limited', attempts: 3 }),
+      step('s3', StepStatus.PENDING),
+    ]);
+
+    expect(steps.map(s => s.status)).toEqual([StepStatus.COMPLETED, StepStatus.PENDING, StepStatus.PENDING]);
+    expect(steps[0].result).toBe('done');
+    expect(steps[1].error).toBeUndefined();
+    expect(steps[1].attempts).toBeUndefined();
+    expect(getReadySteps(steps).map(s => s.id)).toEqual(['s2']);
+  });
+
+  it('resets cancelled and interrupted steps and drops their partial output', () => {
+    const steps = restoreInterruptedSteps([
+      step('s1', StepStatus.CANCELLED, { result: 'partial' }),
+      step('s2', StepStatus.PROCESSING, { result: 'streaming', startedAt: 1 }),
+      step('s3', StepStatus.SKIPPED),
+    ]);
+
+    expect(steps.map(s => s.status)).toEqual([StepStatus.PENDING, StepStatus.PENDING, StepStatus.SKIPPED]);
+    expect(steps.map(s => s.result)).toEqual([undefined, undefined, undefined]);
+    expect(steps[1].startedAt).toBeUndefined();
+  });
+});
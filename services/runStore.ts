@@ -0,0 +1,30 @@
+import { WorkflowRun, WorkflowStep, StepStatus } from "../types";
+import { RUNS_STORE, withStore } from "./db";
+import { isInterruptedStep, PENDING_STEP_RESET } from "./workflowGraph";
+
+/**
+ * All saved runs, most recently updated first.
+ */
+export const listRuns = async (): Promise<WorkflowRun[]> => {
+  const runs = await withStore<WorkflowRun[]>(RUNS_STORE, 'readonly', store => store.getAll());
+  return runs.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getRun = (id: string): Promise<WorkflowRun | undefined> =>
+  withStore<WorkflowRun | undefined>(RUNS_STORE, 'readonly', store => store.get(id));
+
+export const saveRun = async (run: WorkflowRun): Promise<void> => {
+  await withStore(RUNS_STORE, 'readwrite', store => store.put(run));
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+  await withStore(RUNS_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Steps that were PROCESSING when the page went away never finished, and
+ * cancelled or failed ones would block everything after them; put them back
+ * to PENDING so Resume picks the run up from the first unfinished step.
+ */
+export const restoreInterruptedSteps = (steps: WorkflowStep[]): WorkflowStep[] =>
+  steps.map(s => s.status === StepStatus.PROCESSING || isInterruptedStep(s) ? { ...s, ...PENDING_STEP_RESET } : s);
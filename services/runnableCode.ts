@@ -0,0 +1,68 @@
+import { CodeExecutionResult } from "../types";
+import { extractCodeFiles } from "../utils/codeOutput";
+
+export type SandboxLanguage = 'python' | 'javascript' | 'typescript';
+
+export interface SandboxFile {
+  path: string;
+  language: SandboxLanguage;
+  code: string;
+}
+
+/**
+ * Runs generated code and reports how it went: the sandbox in the app, nothing
+ * by default elsewhere.
+ */
+export type CodeRunner = (
+  files: SandboxFile[],
+  entry: string,
+  options: { signal?: AbortSignal }
+) => Promise<CodeExecutionResult>;
+
+const LANGUAGES: Record<string, SandboxLanguage> = {
+  python: 'python', py: 'python', python3: 'python',
+  javascript: 'javascript', js: 'javascript', mjs: 'javascript',
+  typescript: 'typescript', ts: 'typescript',
+};
+
+const EXTENSIONS: Record<SandboxLanguage, string> = { python: 'py', javascript: 'js', typescript: 'ts' };
+
+export const getSandboxLanguage = (language: string): SandboxLanguage | null =>
+  LANGUAGES[language.toLowerCase()] ?? null;
+
+const isSameRuntime = (a: SandboxLanguage, b: SandboxLanguage): boolean =>
+  (a === 'python') === (b === 'python');
+
+const MAIN_GUARD = /^if\s+__name__\s*==\s*['"]__main__['"]\s*:/m;
+
+/**
+ * The runnable code blocks in a step result and the file to run. Only blocks
+ * for the runtime of the last runnable block are kept; Python runs the last
+ * file with a `__main__` guard, JS/TS the last file. Blocks without a path get
+ * a generated one, and a later block for the same path replaces an earlier one.
+ */
+export const getRunnableCode = (markdown: string): { files: SandboxFile[]; entry: string } | null => {
+  const blocks = extractCodeFiles(markdown)
+    .map((block, index) => {
+      const language = getSandboxLanguage(block.language);
+      return language && {
+        path: (block.path || `snippet_${index + 1}.${EXTENSIONS[language]}`).replace(/^\.?\//, ''),
+        language,
+        code: block.code,
+      };
+    })
+    .filter((file): file is SandboxFile => !!file);
+  if (blocks.length === 0) return null;
+
+  const runtime = blocks[blocks.length - 1].language;
+  const files = Array.from(new Map(
+    blocks.filter(f => isSameRuntime(f.language, runtime)).map(f => [f.path, f])
+  ).values());
+
+  const withGuard = runtime === 'python' ? files.filter(f => MAIN_GUARD.test(f.code)) : [];
+  const entry = (withGuard.length ? withGuard : files)[(withGuard.length || files.length) - 1].path;
+  return { files, entry };
+};
+
+export const isSuccessfulRun = (result: CodeExecutionResult): boolean =>
+  result.exitCode === 0 && !result.timedOut && !result.error;
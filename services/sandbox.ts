@@ -0,0 +1,139 @@
+import { CodeExecutionResult } from "../types";
+import { SandboxFile } from "./runnableCode";
+
+/** Message sent to the sandbox worker. */
+export interface SandboxRequest {
+  id: number;
+  files: SandboxFile[];
+  entry: string;
+}
+
+/** Messages the sandbox worker sends back for a request. */
+export type SandboxMessage =
+  | { id: number; type: 'started' }
+  | { id: number; type: 'output'; stream: 'stdout' | 'stderr'; text: string }
+  | { id: number; type: 'exit'; exitCode: number }
+  | { id: number; type: 'error'; message: string };
+
+export interface SandboxRunOptions {
+  /** Limit for the code itself; loading the runtime doesn't count. */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  onOutput?: (stream: 'stdout' | 'stderr', text: string) => void;
+}
+
+export const SANDBOX_TIMEOUT_MS = 10_000;
+// The Python runtime is ~12 MB, which can take a while on the first run
+const RUNTIME_LOAD_TIMEOUT_MS = 120_000;
+// Keeps a chatty program from flooding the step card and the fix prompt
+const MAX_OUTPUT_CHARS = 20_000;
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+// The worker runs one program at a time; concurrent steps wait their turn
+let queue: Promise<unknown> = Promise.resolve();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./sandboxWorker.ts', import.meta.url), { type: 'module' });
+  }
+  return worker;
+};
+
+// The only way to stop code stuck in a loop; the runtime reloads on the next run
+const resetWorker = () => {
+  worker?.terminate();
+  worker = null;
+};
+
+const appendCapped = (current: string, text: string): string => {
+  if (current.length >= MAX_OUTPUT_CHARS) return current;
+  const next = current + text;
+  return next.length > MAX_OUTPUT_CHARS ? `${next.slice(0, MAX_OUTPUT_CHARS)}\n... (output truncated)` : next;
+};
+
+const execute = (files: SandboxFile[], entry: string, options: SandboxRunOptions): Promise<CodeExecutionResult> =>
+  new Promise((resolve, reject) => {
+    const { timeoutMs = SANDBOX_TIMEOUT_MS, signal, onOutput } = options;
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+
+    const id = nextRequestId++;
+    const language = files.find(f => f.path === entry)?.language ?? files[0].language;
+    const target = getWorker();
+    let stdout = '';
+    let stderr = '';
+    let startedAt = Date.now();
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      target.removeEventListener('message', handleMessage);
+      target.removeEventListener('error', handleError);
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const finish = (result: Partial<CodeExecutionResult>) => {
+      cleanup();
+      resolve({ language, entry, exitCode: null, stdout, stderr, durationMs: Date.now() - startedAt, ...result });
+    };
+
+    const handleTimeout = (loading: boolean) => {
+      resetWorker();
+      finish(loading
+        ? { error: `The ${language} runtime did not load within ${RUNTIME_LOAD_TIMEOUT_MS / 1000}s.` }
+        : { timedOut: true });
+    };
+
+    let timer = setTimeout(() => handleTimeout(true), RUNTIME_LOAD_TIMEOUT_MS);
+
+    const handleMessage = (event: MessageEvent<SandboxMessage>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+
+      switch (message.type) {
+        case 'started':
+          clearTimeout(timer);
+          startedAt = Date.now();
+          timer = setTimeout(() => handleTimeout(false), timeoutMs);
+          break;
+        case 'output':
+          if (message.stream === 'stdout') stdout = appendCapped(stdout, message.text);
+          else stderr = appendCapped(stderr, message.text);
+          onOutput?.(message.stream, message.text);
+          break;
+        case 'exit':
+          finish({ exitCode: message.exitCode });
+          break;
+        case 'error':
+          finish({ error: message.message });
+          break;
+      }
+    };
+
+    const handleError = (event: ErrorEvent) => {
+      resetWorker();
+      finish({ error: `The sandbox crashed: ${event.message || 'unknown error'}` });
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      resetWorker();
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+
+    target.addEventListener('message', handleMessage);
+    target.addEventListener('error', handleError);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    target.postMessage({ id, files, entry } satisfies SandboxRequest);
+  });
+
+/**
+ * Run `entry` in a Web Worker: Python through Pyodide, JavaScript and
+ * TypeScript as ES modules. Every file is checked for syntax errors first and
+ * sibling files can be imported. The worker has no DOM, no access to the
+ * page's storage and no fetch, XMLHttpRequest, WebSocket or EventSource.
+ */
+export const runInSandbox = (files: SandboxFile[], entry: string, options: SandboxRunOptions = {}): Promise<CodeExecutionResult> => {
+  const run = queue.then(() => execute(files, entry, options));
+  queue = run.catch(() => undefined);
+  return run;
+};
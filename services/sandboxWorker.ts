@@ -0,0 +1,228 @@
+import { loadPyodide, PyodideInterface } from 'pyodide';
+import { transform } from 'sucrase';
+import type { SandboxMessage, SandboxRequest } from './sandbox';
+import type { SandboxFile } from './runnableCode';
+
+type Stream = 'stdout' | 'stderr';
+type Write = (stream: Stream, text: string) => void;
+
+// The Pyodide runtime is served by our own build (see vite.config.ts)
+const RUNTIME_URL = new URL(`${import.meta.env.BASE_URL}pyodide/`, self.location.href).href;
+
+// Generated code gets no access to the app's saved runs or caches, and no network
+['indexedDB', 'caches', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'importScripts', 'Worker', 'SharedWorker'].forEach(name => {
+  Object.defineProperty(self, name, { value: undefined, configurable: true });
+});
+
+// Pyodide loads its runtime with fetch, so requests for those files still go through
+const runtimeFetch = self.fetch.bind(self);
+Object.defineProperty(self, 'fetch', {
+  value: (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : String(input), self.location.href).href;
+    return url.startsWith(RUNTIME_URL)
+      ? runtimeFetch(input, init)
+      : Promise.reject(new TypeError(`Network access is blocked in the sandbox (${url})`));
+  },
+  configurable: true,
+});
+
+const post = (message: SandboxMessage) => self.postMessage(message);
+
+let pyodidePromise: Promise<PyodideInterface> | null = null;
+
+// Only the standard library is available; packages such as numpy would have
+// to be downloaded, and the sandbox has no network. Setting packageBaseUrl
+// also keeps Pyodide from falling back to its CDN.
+const getPyodide = (): Promise<PyodideInterface> => {
+  if (!pyodidePromise) {
+    pyodidePromise = loadPyodide({ indexURL: RUNTIME_URL, packageBaseUrl: RUNTIME_URL }).catch(error => {
+      pyodidePromise = null;
+      throw error;
+    });
+  }
+  return pyodidePromise;
+};
+
+// Runs the entry as __main__ after compiling every file, and prints the
+// traceback without the frames of this harness.
+const PYTHON_HARNESS = `
+import os, runpy, sys, traceback
+
+def _is_user_file(filename, root, paths):
+    return filename.startswith(root) or filename in paths
+
+def _sandbox_run(root, paths, entry):
+    os.chdir(root)
+    sys.path.insert(0, root)
+    try:
+        for path in paths:
+            with open(path) as source:
+                compile(source.read(), path, "exec")
+        runpy.run_path(entry, run_name="__main__")
+        return 0
+    except SystemExit as exit:
+        if exit.code is None or isinstance(exit.code, int):
+            return exit.code or 0
+        print(exit.code, file=sys.stderr)
+        return 1
+    except BaseException as error:
+        tb = error.__traceback__
+        while tb is not None and not _is_user_file(tb.tb_frame.f_code.co_filename, root, paths):
+            tb = tb.tb_next
+        traceback.print_exception(type(error), error, tb)
+        return 1
+    finally:
+        sys.stdout.flush()
+        sys.stderr.flush()
+        sys.path.remove(root)
+        # Drop the run's modules so the next run imports its own versions
+        for name, module in list(sys.modules.items()):
+            if (getattr(module, "__file__", None) or "").startswith(root):
+                del sys.modules[name]
+        os.chdir("/")
+`;
+
+const runPython = async (request: SandboxRequest, write: Write): Promise<number> => {
+  const pyodide = await getPyodide();
+  pyodide.setStdout({ batched: text => write('stdout', `${text}\n`) });
+  pyodide.setStderr({ batched: text => write('stderr', `${text}\n`) });
+  // input() raises EOFError instead of hanging on a prompt nobody can answer
+  pyodide.setStdin({ stdin: () => null });
+
+  const root = `/tmp/run_${request.id}`;
+  request.files.forEach(file => {
+    const path = `${root}/${file.path}`;
+    pyodide.FS.mkdirTree(path.slice(0, path.lastIndexOf('/')));
+    pyodide.FS.writeFile(path, file.code);
+  });
+  pyodide.runPython(PYTHON_HARNESS);
+
+  post({ id: request.id, type: 'started' });
+  const exitCode = await pyodide.runPythonAsync(
+    `_sandbox_run(${JSON.stringify(root)}, ${JSON.stringify(request.files.map(f => f.path))}, ${JSON.stringify(request.entry)})`
+  );
+  return Number(exitCode);
+};
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return value.stack || String(value);
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+let writeConsole: Write = () => undefined;
+
+(['log', 'info', 'debug', 'warn', 'error'] as const).forEach(method => {
+  const stream: Stream = method === 'warn' || method === 'error' ? 'stderr' : 'stdout';
+  console[method] = (...args: unknown[]) => writeConsole(stream, `${args.map(formatValue).join(' ')}\n`);
+});
+
+const resolveImport = (from: string, specifier: string, paths: Set<string>): string | undefined => {
+  const parts = from.split('/').slice(0, -1);
+  specifier.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  });
+  const base = parts.join('/');
+  const stem = base.replace(/\.(m?js|ts)$/, '');
+  return [base, `${stem}.ts`, `${stem}.js`, `${stem}.mjs`, `${base}/index.ts`, `${base}/index.js`].find(p => paths.has(p));
+};
+
+const RELATIVE_IMPORT = /(\bfrom\s*|\bimport\s*\(?\s*)(['"])(\.{1,2}\/[^'"]+)\2/g;
+
+/**
+ * Compiles every file (stripping TypeScript types) and turns each into a blob
+ * URL, with relative imports of sibling files rewritten to their URLs.
+ */
+const createModuleUrls = (files: SandboxFile[]): Map<string, string> => {
+  const compiled = new Map(files.map(file => [file.path, transform(file.code, {
+    transforms: file.language === 'typescript' ? ['typescript'] : [],
+    filePath: file.path,
+  }).code]));
+  const paths = new Set(compiled.keys());
+  const urls = new Map<string, string>();
+  const visiting = new Set<string>();
+
+  const getUrl = (path: string): string | undefined => {
+    if (urls.has(path)) return urls.get(path);
+    // Import cycles are left unresolved and fail when the module loads
+    if (visiting.has(path)) return undefined;
+    visiting.add(path);
+
+    const code = compiled.get(path)!.replace(RELATIVE_IMPORT, (match, prefix, quote, specifier) => {
+      const target = resolveImport(path, specifier, paths);
+      const url = target && getUrl(target);
+      return url ? `${prefix}${quote}${url}${quote}` : match;
+    });
+    const url = URL.createObjectURL(new Blob([code], { type: 'text/javascript' }));
+    urls.set(path, url);
+    return url;
+  };
+
+  files.forEach(file => getUrl(file.path));
+  return urls;
+};
+
+const runJavaScript = async (request: SandboxRequest, write: Write): Promise<number> => {
+  let failed = false;
+  const reportUncaught = (error: unknown) => {
+    failed = true;
+    write('stderr', `Uncaught ${formatValue(error)}\n`);
+  };
+  const onError = (event: ErrorEvent) => {
+    event.preventDefault();
+    reportUncaught(event.error ?? event.message);
+  };
+  const onRejection = (event: PromiseRejectionEvent) => {
+    event.preventDefault();
+    reportUncaught(event.reason);
+  };
+
+  let urls: Map<string, string>;
+  try {
+    urls = createModuleUrls(request.files);
+  } catch (error) {
+    // Syntax errors from the compiler, e.g. "Unexpected token (3:7)"
+    post({ id: request.id, type: 'started' });
+    write('stderr', `SyntaxError: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+
+  self.addEventListener('error', onError);
+  self.addEventListener('unhandledrejection', onRejection);
+  writeConsole = write;
+  post({ id: request.id, type: 'started' });
+  try {
+    await import(/* @vite-ignore */ urls.get(request.entry)!);
+    // Let callbacks queued by the module's top level run before reporting
+    await new Promise(resolve => setTimeout(resolve, 0));
+    return failed ? 1 : 0;
+  } catch (error) {
+    reportUncaught(error);
+    return 1;
+  } finally {
+    self.removeEventListener('error', onError);
+    self.removeEventListener('unhandledrejection', onRejection);
+    writeConsole = () => undefined;
+    urls.forEach(url => URL.revokeObjectURL(url));
+  }
+};
+
+self.onmessage = async (event: MessageEvent<SandboxRequest>) => {
+  const request = event.data;
+  const write: Write = (stream, text) => post({ id: request.id, type: 'output', stream, text });
+  const language = request.files.find(f => f.path === request.entry)?.language;
+
+  let exitCode: number;
+  try {
+    exitCode = language === 'python' ? await runPython(request, write) : await runJavaScript(request, write);
+  } catch (error) {
+    post({ id: request.id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+  post({ id: request.id, type: 'exit', exitCode });
+};
@@ -0,0 +1,18 @@
+import { WorkflowTemplate } from "../types";
+import { TEMPLATES_STORE, withStore } from "./db";
+
+/**
+ * All saved templates, alphabetically.
+ */
+export const listTemplates = async (): Promise<WorkflowTemplate[]> => {
+  const templates = await withStore<WorkflowTemplate[]>(TEMPLATES_STORE, 'readonly', store => store.getAll());
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveTemplate = async (template: WorkflowTemplate): Promise<void> => {
+  await withStore(TEMPLATES_STORE, 'readwrite', store => store.put(template));
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  await withStore(TEMPLATES_STORE, 'readwrite', store => store.delete(id));
+};
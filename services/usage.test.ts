@@ -0,0 +1,197 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ModelUsage, StepStatus } from '../types';
+import { ChatChunk, ChatOptions, LLMProvider } from './providers';
+import { BudgetExceededError } from './errors';
+import {
+  addUsage,
+  createBudgetGuard,
+  findModelPrice,
+  formatCost,
+  formatTokenCount,
+  getRunUsages,
+  meterProvider,
+  parsePriceTable,
+  PriceTableError,
+  summarizeUsage,
+} from './usage';
+
+const usage = (model: string, promptTokens: number, completionTokens: number, patch: Partial<ModelUsage> = {}): ModelUsage =>
+  ({ model, promptTokens, completionTokens, calls: 1, durationMs: 10, ...patch });
+
+describe('findModelPrice', () => {
+  const prices = { 'gpt-4o*': { input: 5, output: 15 }, 'gpt-4o-mini*': { input: 1, output: 2 }, 'gpt-4o-mini': { input: 0, output: 0 } };
+
+  it('prefers the exact id, then the longest prefix', () => {
+    expect(findModelPrice(prices, 'gpt-4o-mini')).toEqual({ input: 0, output: 0 });
+    expect(findModelPrice(prices, 'gpt-4o-mini-2024-07-18')).toEqual({ input: 1, output: 2 });
+    expect(findModelPrice(prices, 'gpt-4o-2024-08-06')).toEqual({ input: 5, output: 15 });
+    expect(findModelPrice(prices, 'llama3')).toBeUndefined();
+  });
+});
+
+describe('parsePriceTable', () => {
+  it('reads one price per line and skips comments', () => {
+    expect(parsePriceTable('# USD per million tokens\n\ngpt-4o  2.5 10\r\nllama*\t0 0')).toEqual({
+      'gpt-4o': { input: 2.5, output: 10 },
+      'llama*': { input: 0, output: 0 },
+    });
+  });
+
+  it('reports every bad line', () => {
+    const error = (() => {
+      try {
+        return parsePriceTable('ok 1 2\nmissing 1\nwords one two\nnegative -1 2\nextra 1 2 3');
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(PriceTableError);
+    expect((error as PriceTableError).issues.map(issue => issue.split(':')[0])).toEqual(['line 2', 'line 3', 'line 4', 'line 5']);
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('adds up tokens and the cost of priced models', () => {
+    const summary = summarizeUsage(
+      [usage('gpt-4o', 1_000_000, 500_000), undefined, usage('llama3', 10, 20, { estimated: true }), usage('llama3', 1, 1)],
+      { 'gpt-4o': { input: 2, output: 8 } },
+    );
+
+    expect(summary).toEqual({
+      promptTokens: 1_000_011,
+      completionTokens: 500_021,
+      calls: 3,
+      durationMs: 30,
+      cost: 6,
+      unpricedModels: ['llama3'],
+      estimated: true,
+    });
+  });
+});
+
+describe('addUsage', () => {
+  it('adds two rounds and keeps the later time to first token', () => {
+    expect(addUsage(usage('a', 1, 2, { timeToFirstTokenMs: 5 }), usage('b', 3, 4, { timeToFirstTokenMs: 7 })))
+      .toEqual({ model: 'b', promptTokens: 4, completionTokens: 6, estimated: undefined, calls: 2, durationMs: 20, timeToFirstTokenMs: 7 });
+  });
+});
+
+describe('getRunUsages', () => {
+  it('counts follow-up answers only until they become steps', () => {
+    const promoted = usage('m', 5, 5);
+
+    expect(getRunUsages({
+      planUsage: usage('m', 1, 1),
+      steps: [{ id: 's', description: 'Promoted', status: StepStatus.COMPLETED, usage: promoted }],
+      chat: [
+        { id: 'a', role: 'assistant', content: '', createdAt: 0, usage: promoted, promotedStepId: 's' },
+        { id: 'b', role: 'assistant', content: '', createdAt: 0, usage: usage('m', 2, 2) },
+      ],
+      followUpUsage: usage('m', 3, 3),
+    }).filter(Boolean).map(u => u.promptTokens)).toEqual([1, 5, 3, 2]);
+  });
+});
+
+describe('createBudgetGuard', () => {
+  it('caps the answer to what is left, counting calls still running', () => {
+    const guard = createBudgetGuard({ maxTokens: 1000 }, {}, [usage('m', 400, 200)]);
+
+    const first = guard.reserve('m', 100, 500);
+    expect(first.maxTokens).toBe(300);
+    expect(() => guard.reserve('m', 100)).toThrow(BudgetExceededError);
+
+    first.settle({ promptTokens: 100, completionTokens: 50 });
+    expect(guard.reserve('m', 100).maxTokens).toBe(150);
+  });
+
+  it('only settles a reservation once', () => {
+    const guard = createBudgetGuard({ maxTokens: 1000 }, {}, []);
+    const reservation = guard.reserve('m', 100, 100);
+
+    reservation.settle({ promptTokens: 100, completionTokens: 100 });
+    reservation.settle({ promptTokens: 100, completionTokens: 100 });
+
+    expect(guard.reserve('m', 100).maxTokens).toBe(700);
+  });
+
+  it('refuses a call with no room for a short answer', () => {
+    const guard = createBudgetGuard({ maxTokens: 1000 }, {}, [usage('m', 900, 0)]);
+
+    expect(() => guard.reserve('m', 50)).toThrow('Token budget reached: 900 of 1,000 tokens used');
+  });
+
+  it('caps the answer to what the cost budget can pay for', () => {
+    const prices = { priced: { input: 1, output: 4 } };
+    const guard = createBudgetGuard({ maxCost: 1 }, prices, []);
+
+    expect(guard.reserve('priced', 200_000).maxTokens).toBe(200_000);
+    expect(() => guard.reserve('priced', 100)).toThrow('Cost budget reached: $0.0000 of $1.00 spent.');
+    expect(guard.reserve('free', 100).maxTokens).toBeUndefined();
+  });
+});
+
+describe('meterProvider', () => {
+  const fakeProvider = (stream: ChatChunk[], fail = false) => {
+    const options: ChatOptions[] = [];
+    const provider: LLMProvider = {
+      id: 'mock',
+      model: 'fake',
+      capabilities: { streaming: true, vision: false, jsonMode: false },
+      async chat(_messages, callOptions) {
+        options.push(callOptions);
+        return { content: 'answer', usage: { promptTokens: 40, completionTokens: 10 } };
+      },
+      async *chatStream(_messages, callOptions) {
+        options.push(callOptions);
+        yield* stream;
+        if (fail) throw new Error('connection reset');
+      },
+    };
+    return { provider, options };
+  };
+  const messages = [{ role: 'user' as const, content: 'Hello there' }];
+
+  it('adds up reported usage over calls and limits them to the budget', async () => {
+    const { provider, options } = fakeProvider([]);
+    const onUsage = vi.fn<(usage: ModelUsage) => void>();
+    const metered = meterProvider(provider, { budget: createBudgetGuard({ maxTokens: 500 }, {}, []), onUsage });
+
+    await metered.chat(messages, { maxTokens: 1000 });
+    await metered.chat(messages);
+
+    expect(options[0].maxTokens).toBeLessThan(500);
+    expect(onUsage.mock.calls.at(-1)[0]).toMatchObject({ model: 'fake', promptTokens: 80, completionTokens: 20, calls: 2, estimated: undefined });
+  });
+
+  it('estimates a stream that reports no usage, even when it fails', async () => {
+    const { provider } = fakeProvider([{ delta: 'partial answer' }], true);
+    const onUsage = vi.fn<(usage: ModelUsage) => void>();
+
+    await expect((async () => {
+      for await (const _chunk of meterProvider(provider, { onUsage }).chatStream(messages)) { /* drain */ }
+    })()).rejects.toThrow('connection reset');
+
+    expect(onUsage).toHaveBeenCalledTimes(1);
+    expect(onUsage.mock.calls[0][0]).toMatchObject({ calls: 1, estimated: true });
+    expect(onUsage.mock.calls[0][0].completionTokens).toBeGreaterThan(0);
+  });
+
+  it('does not count a stream that failed before producing anything', async () => {
+    const { provider } = fakeProvider([], true);
+    const onUsage = vi.fn();
+
+    await expect((async () => {
+      for await (const _chunk of meterProvider(provider, { onUsage }).chatStream(messages)) { /* drain */ }
+    })()).rejects.toThrow();
+
+    expect(onUsage).not.toHaveBeenCalled();
+  });
+});
+
+describe('formatting', () => {
+  it('keeps cents of small costs and shortens large token counts', () => {
+    expect([formatCost(0.01234), formatCost(12.5)]).toEqual(['$0.0123', '$12.50']);
+    expect([formatTokenCount(999), formatTokenCount(1500), formatTokenCount(2_500_000)]).toEqual(['999', '1.5k', '2.50M']);
+  });
+});
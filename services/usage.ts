@@ -0,0 +1,316 @@
+import { FollowUpMessage, ModelPrice, ModelUsage, PriceTable, RunBudget, WorkflowRun } from "../types";
+import { ChatChunk, ChatMessage, ChatOptions, ChatResult, getMessageText, LLMProvider, TokenUsage } from "./providers";
+import { estimateTokens, IMAGE_TOKEN_ESTIMATE } from "./contextBudget";
+import { BudgetExceededError } from "./errors";
+
+// A call left with room for fewer output tokens than this is not worth making
+const MIN_CALL_OUTPUT_TOKENS = 64;
+// Role markers and separators the backend adds around every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Thrown by parsePriceTable, with one issue per bad line.
+ */
+export class PriceTableError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid price table: ${issues.join('; ')}`);
+    this.name = 'PriceTableError';
+  }
+}
+
+/**
+ * The price of a model: its exact id first, then the longest matching
+ * `prefix*` entry, so "gpt-4o-mini*" wins over "gpt-4o*".
+ */
+export const findModelPrice = (prices: PriceTable, model: string): ModelPrice | undefined => {
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices)
+    .filter(key => key.endsWith('*') && model.startsWith(key.slice(0, -1)))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+};
+
+/**
+ * USD for the given token counts, or undefined when the model has no price.
+ */
+export const getUsageCost = (usage: TokenUsage, price?: ModelPrice): number | undefined =>
+  price ? (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000 : undefined;
+
+/**
+ * Parses one price per line: `<model id> <input> <output>`, in USD per
+ * million tokens. Blank lines and lines starting with `#` are skipped.
+ */
+export const parsePriceTable = (text: string): PriceTable => {
+  const prices: PriceTable = {};
+  const issues: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+    const [model, input, output, ...rest] = trimmed.split(/\s+/);
+    const price = { input: Number(input), output: Number(output) };
+    if (rest.length > 0 || !Number.isFinite(price.input) || !Number.isFinite(price.output) || price.input < 0 || price.output < 0) {
+      issues.push(`line ${i + 1}: expected "<model> <input price> <output price>"`);
+      return;
+    }
+    prices[model] = price;
+  });
+
+  if (issues.length > 0) throw new PriceTableError(issues);
+  return prices;
+};
+
+// Helper to show a USD amount; small amounts keep more digits so cents of a run are visible
+export const formatCost = (amount: number) => `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+
+export const formatTokenCount = (tokens: number) =>
+  tokens < 1000 ? String(tokens) : tokens < 1_000_000 ? `${(tokens / 1000).toFixed(1)}k` : `${(tokens / 1_000_000).toFixed(2)}M`;
+
+export const formatPriceTable = (prices: PriceTable): string =>
+  Object.entries(prices).map(([model, price]) => `${model} ${price.input} ${price.output}`).join('\n');
+
+export interface UsageSummary {
+  promptTokens: number;
+  completionTokens: number;
+  calls: number;
+  durationMs: number;
+  /** USD for the calls to models that have a price. */
+  cost: number;
+  /** Models used that are missing from the price table. */
+  unpricedModels: string[];
+  /** Some counts are estimates. */
+  estimated: boolean;
+}
+
+/**
+ * Usage of two rounds of calls to the same step (or to the planner), as one.
+ * The time to first token is the later round's.
+ */
+export const addUsage = (previous: ModelUsage | undefined, next: ModelUsage): ModelUsage => previous ? {
+  model: next.model,
+  promptTokens: previous.promptTokens + next.promptTokens,
+  completionTokens: previous.completionTokens + next.completionTokens,
+  estimated: previous.estimated || next.estimated || undefined,
+  calls: previous.calls + next.calls,
+  durationMs: previous.durationMs + next.durationMs,
+  timeToFirstTokenMs: next.timeToFirstTokenMs ?? previous.timeToFirstTokenMs,
+} : next;
+
+/**
+ * Totals over the usage of several steps (and planning).
+ */
+export const summarizeUsage = (usages: (ModelUsage | undefined)[], prices: PriceTable): UsageSummary => {
+  const unpriced = new Set<string>();
+  return usages.reduce<UsageSummary>((summary, usage) => {
+    if (!usage) return summary;
+    const cost = getUsageCost(usage, findModelPrice(prices, usage.model));
+    if (cost === undefined) unpriced.add(usage.model);
+    return {
+      promptTokens: summary.promptTokens + usage.promptTokens,
+      completionTokens: summary.completionTokens + usage.completionTokens,
+      calls: summary.calls + usage.calls,
+      durationMs: summary.durationMs + usage.durationMs,
+      cost: summary.cost + (cost ?? 0),
+      unpricedModels: Array.from(unpriced),
+      estimated: summary.estimated || !!usage.estimated,
+    };
+  }, { promptTokens: 0, completionTokens: 0, calls: 0, durationMs: 0, cost: 0, unpricedModels: [], estimated: false });
+};
+
+/**
+ * Usage of the follow-up chat that isn't counted with a step: answers that
+ * weren't added to the workflow, including those cleared earlier.
+ */
+export const getFollowUpUsages = (chat: FollowUpMessage[] = [], cleared?: ModelUsage): (ModelUsage | undefined)[] =>
+  [cleared, ...chat.filter(m => !m.promotedStepId).map(m => m.usage)];
+
+/**
+ * Every model call of a run: planning, steps and follow-up answers.
+ */
+export const getRunUsages = (run: Pick<WorkflowRun, 'steps' | 'planUsage' | 'chat' | 'followUpUsage'>): (ModelUsage | undefined)[] =>
+  [run.planUsage, ...run.steps.map(s => s.usage), ...getFollowUpUsages(run.chat, run.followUpUsage)];
+
+export interface BudgetReservation {
+  /** Output tokens the call may use; pass it as the call's maxTokens. */
+  maxTokens?: number;
+  /** Replaces the reservation with what the call actually used. */
+  settle: (usage: TokenUsage) => void;
+}
+
+/**
+ * Keeps a run within its budget. Every call reserves its prompt and its
+ * largest possible answer before it is sent, so steps running in parallel
+ * can't overshoot together.
+ */
+export interface BudgetGuard {
+  /** Throws BudgetExceededError when not even a short answer fits. */
+  reserve: (model: string, promptTokens: number, maxTokens?: number) => BudgetReservation;
+}
+
+/**
+ * A guard for `budget`, counting what the given usages already spent.
+ */
+export const createBudgetGuard = (budget: RunBudget, prices: PriceTable, spent: (ModelUsage | undefined)[]): BudgetGuard => {
+  const initial = summarizeUsage(spent, prices);
+  let usedTokens = initial.promptTokens + initial.completionTokens;
+  let usedCost = initial.cost;
+  let reservedTokens = 0;
+  let reservedCost = 0;
+
+  const reserve = (model: string, promptTokens: number, maxTokens?: number): BudgetReservation => {
+    const price = findModelPrice(prices, model);
+    let allowed = maxTokens ?? Infinity;
+
+    if (budget.maxTokens) {
+      const left = budget.maxTokens - usedTokens - reservedTokens - promptTokens;
+      if (left < MIN_CALL_OUTPUT_TOKENS) {
+        throw new BudgetExceededError(`Token budget reached: ${usedTokens.toLocaleString()} of ${budget.maxTokens.toLocaleString()} tokens used, and the next call needs about ${promptTokens.toLocaleString()} for its prompt.`);
+      }
+      allowed = Math.min(allowed, left);
+    }
+    if (budget.maxCost && price) {
+      const left = budget.maxCost - usedCost - reservedCost - promptTokens * price.input / 1_000_000;
+      const affordable = price.output > 0 ? Math.floor(left * 1_000_000 / price.output) : Infinity;
+      if (left <= 0 || affordable < MIN_CALL_OUTPUT_TOKENS) {
+        throw new BudgetExceededError(`Cost budget reached: ${formatCost(usedCost)} of ${formatCost(budget.maxCost)} spent.`);
+      }
+      allowed = Math.min(allowed, affordable);
+    }
+
+    const outputTokens = Number.isFinite(allowed) ? allowed : 0;
+    const tokens = promptTokens + outputTokens;
+    const cost = getUsageCost({ promptTokens, completionTokens: outputTokens }, price) ?? 0;
+    reservedTokens += tokens;
+    reservedCost += cost;
+
+    let settled = false;
+    return {
+      maxTokens: Number.isFinite(allowed) ? allowed : undefined,
+      settle: (usage) => {
+        if (settled) return;
+        settled = true;
+        reservedTokens -= tokens;
+        reservedCost -= cost;
+        usedTokens += usage.promptTokens + usage.completionTokens;
+        usedCost += getUsageCost(usage, price) ?? 0;
+      },
+    };
+  };
+
+  return { reserve };
+};
+
+/**
+ * Estimated prompt size of a request, for backends that don't report usage.
+ */
+export const estimateMessageTokens = (messages: ChatMessage[]): number =>
+  messages.reduce((sum, m) => {
+    const images = typeof m.content === 'string' ? 0 : m.content.filter(part => part.type === 'image').length;
+    return sum + estimateTokens(getMessageText(m.content)) + images * IMAGE_TOKEN_ESTIMATE + MESSAGE_OVERHEAD_TOKENS;
+  }, 0);
+
+interface CallRecord {
+  model: string;
+  usage: TokenUsage;
+  estimated: boolean;
+  durationMs: number;
+  timeToFirstTokenMs?: number;
+}
+
+export interface MeterOptions {
+  /** Limits every call; calls that don't fit throw BudgetExceededError. */
+  budget?: BudgetGuard;
+  /** Called after every call with the totals so far. */
+  onUsage?: (usage: ModelUsage) => void;
+}
+
+/**
+ * Wraps a provider to count the tokens and time of every call made through
+ * it. Counts the backend doesn't report are estimated from the text; calls
+ * that fail before producing anything are not counted.
+ */
+export const meterProvider = (provider: LLMProvider, options: MeterOptions = {}): LLMProvider => {
+  const { budget, onUsage } = options;
+  let total: ModelUsage | undefined;
+
+  const record = (call: CallRecord) => {
+    total = {
+      model: call.model,
+      promptTokens: (total?.promptTokens ?? 0) + call.usage.promptTokens,
+      completionTokens: (total?.completionTokens ?? 0) + call.usage.completionTokens,
+      estimated: total?.estimated || call.estimated || undefined,
+      calls: (total?.calls ?? 0) + 1,
+      durationMs: (total?.durationMs ?? 0) + Math.round(call.durationMs),
+      timeToFirstTokenMs: total?.timeToFirstTokenMs ?? call.timeToFirstTokenMs,
+    };
+    onUsage?.(total);
+  };
+
+  const prepare = (messages: ChatMessage[], callOptions: ChatOptions) => {
+    const model = callOptions.model || provider.model;
+    const promptTokens = estimateMessageTokens(messages);
+    const reservation = budget?.reserve(model, promptTokens, callOptions.maxTokens);
+    return {
+      model,
+      promptTokens,
+      reservation,
+      options: reservation ? { ...callOptions, maxTokens: reservation.maxTokens } : callOptions,
+    };
+  };
+
+  return {
+    id: provider.id,
+    model: provider.model,
+    capabilities: provider.capabilities,
+
+    async chat(messages: ChatMessage[], callOptions: ChatOptions = {}): Promise<ChatResult> {
+      const call = prepare(messages, callOptions);
+      const startedAt = performance.now();
+      let result: ChatResult | undefined;
+      try {
+        result = await provider.chat(messages, call.options);
+        return result;
+      } finally {
+        const usage = result
+          ? result.usage ?? { promptTokens: call.promptTokens, completionTokens: estimateTokens(result.content) }
+          : { promptTokens: 0, completionTokens: 0 };
+        call.reservation?.settle(usage);
+        if (result) {
+          record({ model: call.model, usage, estimated: !result.usage, durationMs: performance.now() - startedAt });
+        }
+      }
+    },
+
+    async *chatStream(messages: ChatMessage[], callOptions: ChatOptions = {}): AsyncIterable<ChatChunk> {
+      const call = prepare(messages, callOptions);
+      const startedAt = performance.now();
+      let firstTokenAt: number | undefined;
+      let output = "";
+      let reported: TokenUsage | undefined;
+      try {
+        for await (const chunk of provider.chatStream(messages, call.options)) {
+          if (chunk.delta && firstTokenAt === undefined) firstTokenAt = performance.now();
+          output += chunk.delta;
+          if (chunk.usage) reported = chunk.usage;
+          yield chunk;
+        }
+      } finally {
+        // An aborted or failed stream still cost what it produced
+        const produced = !!reported || output.length > 0;
+        const usage = reported ?? (produced
+          ? { promptTokens: call.promptTokens, completionTokens: estimateTokens(output) }
+          : { promptTokens: 0, completionTokens: 0 });
+        call.reservation?.settle(usage);
+        if (produced) {
+          record({
+            model: call.model,
+            usage,
+            estimated: !reported,
+            durationMs: performance.now() - startedAt,
+            timeToFirstTokenMs: firstTokenAt === undefined ? undefined : Math.round(firstTokenAt - startedAt),
+          });
+        }
+      }
+    },
+  };
+};
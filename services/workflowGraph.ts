@@ -0,0 +1,127 @@
+import { WorkflowStep, StepStatus, PlannedStep } from "../types";
+
+/**
+ * Workflow steps, ready to run, for a generated or template plan.
+ */
+export const toPendingSteps = (plan: PlannedStep[]): WorkflowStep[] =>
+  plan.map(planned => ({
+    id: planned.id,
+    description: planned.title,
+    status: StepStatus.PENDING,
+    instructions: planned.instructions,
+    outputType: planned.outputType,
+    targetFiles: planned.targetFiles,
+    dependsOn: planned.dependsOn,
+  }));
+
+/**
+ * Clears what an earlier attempt left on a step, so it runs again from
+ * scratch. Its usage is kept: those tokens were spent and count against the
+ * run's budget.
+ */
+export const PENDING_STEP_RESET: Partial<WorkflowStep> = {
+  status: StepStatus.PENDING,
+  result: undefined,
+  thinking: undefined,
+  error: undefined,
+  attempts: undefined,
+  continuations: undefined,
+  truncated: undefined,
+  executions: undefined,
+  fixAttempts: undefined,
+  review: undefined,
+  drafts: undefined,
+  startedAt: undefined,
+  completedAt: undefined,
+};
+
+/**
+ * Steps that were stopped or failed before finishing. They block everything
+ * downstream, so resuming runs them again.
+ */
+export const isInterruptedStep = (step: WorkflowStep): boolean =>
+  step.status === StepStatus.CANCELLED || step.status === StepStatus.FAILED;
+
+/**
+ * Ids of the steps `step` depends on. Steps without an explicit `dependsOn`
+ * (hand-written steps, older plans) keep the original sequential behaviour
+ * and depend on every step listed before them.
+ */
+export const resolveDependencies = (step: WorkflowStep, steps: WorkflowStep[]): string[] => {
+  const ids = new Set(steps.map(s => s.id));
+  if (step.dependsOn) return step.dependsOn.filter(id => ids.has(id) && id !== step.id);
+
+  const index = steps.findIndex(s => s.id === step.id);
+  return steps.slice(0, Math.max(index, 0)).map(s => s.id);
+};
+
+/**
+ * The completed steps whose results `step` should receive as context.
+ */
+export const getDependencySteps = (step: WorkflowStep, steps: WorkflowStep[]): WorkflowStep[] => {
+  const deps = new Set(resolveDependencies(step, steps));
+  return steps.filter(s => deps.has(s.id));
+};
+
+/**
+ * PENDING steps whose dependencies have all completed, in list order.
+ */
+export const getReadySteps = (steps: WorkflowStep[]): WorkflowStep[] => {
+  const completed = new Set(steps.filter(s => s.status === StepStatus.COMPLETED).map(s => s.id));
+  return steps.filter(s =>
+    s.status === StepStatus.PENDING &&
+    resolveDependencies(s, steps).every(id => completed.has(id))
+  );
+};
+
+/**
+ * Groups steps into stages: a step's stage is one more than the deepest of
+ * its dependencies, so every step in a stage can run in parallel.
+ */
+export const getExecutionStages = (steps: WorkflowStep[]): WorkflowStep[][] => {
+  const byId = new Map(steps.map(s => [s.id, s]));
+  const levels = new Map<string, number>();
+
+  const levelOf = (step: WorkflowStep, trail: Set<string>): number => {
+    const known = levels.get(step.id);
+    if (known !== undefined) return known;
+    if (trail.has(step.id)) return 0; // Defensive: plans are validated to be acyclic
+    trail.add(step.id);
+
+    const deps = resolveDependencies(step, steps)
+      .map(id => byId.get(id))
+      .filter((s): s is WorkflowStep => !!s);
+    const level = deps.length ? Math.max(...deps.map(d => levelOf(d, trail))) + 1 : 0;
+
+    trail.delete(step.id);
+    levels.set(step.id, level);
+    return level;
+  };
+
+  const stages: WorkflowStep[][] = [];
+  steps.forEach(step => {
+    const level = levelOf(step, new Set());
+    (stages[level] ||= []).push(step);
+  });
+  return stages.filter(Boolean);
+};
+
+/**
+ * `stepId` plus every step that directly or transitively depends on it,
+ * i.e. everything whose result is invalidated when `stepId` is rerun.
+ */
+export const getDownstreamStepIds = (stepId: string, steps: WorkflowStep[]): Set<string> => {
+  const affected = new Set([stepId]);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    steps.forEach(step => {
+      if (affected.has(step.id)) return;
+      if (resolveDependencies(step, steps).some(dep => affected.has(dep))) {
+        affected.add(step.id);
+        changed = true;
+      }
+    });
+  }
+  return affected;
+};
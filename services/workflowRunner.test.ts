@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AgentState, StepStatus, WorkflowStep } from '../types';
+import { executeWorkflowStep } from './geminiService';
+import { createWorkflowRunner } from './workflowRunner';
+
+vi.mock('./geminiService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./geminiService')>(),
+  executeWorkflowStep: vi.fn(),
+}));
+
+const execute = vi.mocked(executeWorkflowStep);
+
+const completedResult = (result: string) => ({
+  result, thinking: '', continuations: 0, truncated: false, executions: [], fixAttempts: 0, review: undefined, drafts: [],
+});
+
+// Helper to run a workflow against in-memory step state, like App does
+const createHarness = (steps: WorkflowStep[]) => {
+  let state = steps;
+  let agent: Partial<AgentState> = {};
+  const runner = createWorkflowRunner({
+    getSteps: () => state,
+    getFiles: () => [],
+    getGoal: () => '',
+    updateStep: (id, patch) => { state = state.map(s => s.id === id ? { ...s, ...patch } : s); },
+    onStateChange: (patch) => { agent = { ...agent, ...patch }; },
+    streamUpdateIntervalMs: 0,
+  });
+  return { runner, statuses: () => state.map(s => s.status), agent: () => agent };
+};
+
+const pendingSteps = (count: number): WorkflowStep[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `s${i + 1}`, description: `Step ${i + 1}`, status: StepStatus.PENDING }));
+
+describe('createWorkflowRunner', () => {
+  beforeEach(() => {
+    execute.mockReset();
+  });
+
+  it('resumes a stopped run from the step that was running', async () => {
+    // The first call waits until it is aborted; later calls finish straight away
+    execute.mockImplementationOnce((_step, _files, _previous, options) => new Promise((_resolve, reject) => {
+      options?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+    execute.mockImplementation(async (step) => completedResult(`done ${step.id}`));
+
+    const { runner, statuses, agent } = createHarness(pendingSteps(3));
+    const run = runner.start();
+    await vi.waitFor(() => expect(execute).toHaveBeenCalledTimes(1));
+    runner.stop();
+    await run;
+
+    expect(statuses()).toEqual([StepStatus.CANCELLED, StepStatus.PENDING, StepStatus.PENDING]);
+    expect(agent().isPaused).toBe(true);
+
+    await runner.start();
+
+    expect(statuses()).toEqual([StepStatus.COMPLETED, StepStatus.COMPLETED, StepStatus.COMPLETED]);
+    expect(execute).toHaveBeenCalledTimes(4);
+    expect(agent().isPaused).toBe(false);
+  });
+
+  it('does not offer to resume a cancelled run', async () => {
+    execute.mockImplementationOnce((_step, _files, _previous, options) => new Promise((_resolve, reject) => {
+      options?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+
+    const { runner, statuses, agent } = createHarness(pendingSteps(2));
+    const run = runner.start();
+    await vi.waitFor(() => expect(execute).toHaveBeenCalledTimes(1));
+    runner.cancel();
+    await run;
+
+    expect(statuses()).toEqual([StepStatus.CANCELLED, StepStatus.SKIPPED]);
+    expect(agent().isPaused).toBe(false);
+  });
+});
@@ -0,0 +1,274 @@
+import { UploadedFile, WorkflowStep, StepStatus, AgentState, FileCoverage, GenerationSettings, RunBudget, PriceTable, ModelUsage } from "../types";
+import { executeWorkflowStep, extractThinking } from "./geminiService";
+import { getDependencySteps, getDownstreamStepIds, getReadySteps, isInterruptedStep, PENDING_STEP_RESET } from "./workflowGraph";
+import { getErrorMessage, StepExecutionError } from "./errors";
+import { addUsage, BudgetGuard, createBudgetGuard } from "./usage";
+import { throttle } from "../utils/throttle";
+
+export interface WorkflowRunnerOptions {
+  /** Latest view of the steps; read before every step so edits are picked up. */
+  getSteps: () => WorkflowStep[];
+  getFiles: () => UploadedFile[];
+  getGoal: () => string;
+  /** Workflow-wide generation settings; steps may override them. */
+  getSettings?: () => GenerationSettings | undefined;
+  updateStep: (stepId: string, patch: Partial<WorkflowStep>) => void;
+  onStateChange: (patch: Partial<AgentState>) => void;
+  /** How many independent steps may run at the same time. Defaults to 1. */
+  getMaxConcurrency?: () => number;
+  /** Reports how much of each file reached the model for a step. */
+  onContextPrepared?: (stepId: string, coverage: FileCoverage[]) => void;
+  /** Minimum delay between partial stream updates for the running step. */
+  streamUpdateIntervalMs?: number;
+  /** Token and cost ceilings; read when the run (re)starts. */
+  getBudget?: () => RunBudget | undefined;
+  /** Prices for the cost budget, USD per million tokens. */
+  getPrices?: () => PriceTable;
+  /** Calls made outside the steps, like planning and follow-up answers, that count against the budget too. */
+  getOtherUsage?: () => (ModelUsage | undefined)[];
+}
+
+export interface WorkflowRunner {
+  /**
+   * Runs PENDING steps as their dependencies complete, until none are left or
+   * paused/stopped. Cancelled and failed steps are reset and run again first.
+   */
+  start: () => Promise<void>;
+  /** Finish the running steps, then stop before starting new ones. */
+  pause: () => void;
+  /** Abort the running steps now; start() resumes with them and the remaining PENDING steps. */
+  stop: () => void;
+  /** Abort the running steps and skip everything that hasn't run yet. */
+  cancel: () => void;
+  /** Reset a step and everything downstream of it to PENDING, then run again. */
+  rerunFrom: (stepId: string) => Promise<void>;
+  isRunning: () => boolean;
+}
+
+/**
+ * Drives a workflow as a dependency graph: every step whose dependencies have
+ * completed is started, up to the concurrency limit. The runner owns the
+ * control flow (pause / stop / cancel, abort signals) while the caller owns
+ * the step state, which keeps it usable from React as well as from plain scripts.
+ */
+export const createWorkflowRunner = (options: WorkflowRunnerOptions): WorkflowRunner => {
+  const {
+    getSteps,
+    getFiles,
+    getGoal,
+    getSettings = () => undefined,
+    updateStep,
+    onStateChange,
+    getMaxConcurrency = () => 1,
+    onContextPrepared,
+    streamUpdateIntervalMs = 100,
+    getBudget = () => undefined,
+    getPrices = () => ({}),
+    getOtherUsage = () => [],
+  } = options;
+
+  let running = false;
+  let pauseRequested = false;
+  // Cancelled runs end for good; stopped ones can be resumed
+  let cancelRequested = false;
+  const abortControllers = new Set<AbortController>();
+
+  const skipPendingSteps = () => {
+    getSteps()
+      .filter(s => s.status === StepStatus.PENDING)
+      .forEach(s => updateStep(s.id, { status: StepStatus.SKIPPED }));
+  };
+
+  const runStep = async (step: WorkflowStep, budget?: BudgetGuard): Promise<'completed' | 'cancelled' | 'failed'> => {
+    const controller = new AbortController();
+    abortControllers.add(controller);
+    // Earlier attempts' tokens stay on the step; this attempt adds to them
+    const previousUsage = step.usage;
+
+    updateStep(step.id, {
+      status: StepStatus.PROCESSING,
+      result: undefined,
+      thinking: undefined,
+      error: undefined,
+      attempts: 1,
+      continuations: undefined,
+      truncated: undefined,
+      executions: undefined,
+      fixAttempts: undefined,
+      review: undefined,
+      drafts: undefined,
+      startedAt: Date.now(),
+      completedAt: undefined,
+    });
+    onStateChange({ currentStepId: step.id });
+
+    // Stream partial output into the step, batching updates so a long
+    // generation doesn't re-render the UI on every token.
+    let streamed = "";
+    const publishPartial = throttle(() => {
+      const { thinking, content } = extractThinking(streamed);
+      updateStep(step.id, { result: content, thinking });
+    }, streamUpdateIntervalMs);
+
+    try {
+      // Each step only sees the results of the steps it depends on
+      const steps = getSteps();
+      const dependencies = getDependencySteps(step, steps);
+      const { result, thinking, continuations, truncated, executions, fixAttempts, review, drafts } = await executeWorkflowStep(step, getFiles(), dependencies, {
+        goal: getGoal(),
+        settings: getSettings(),
+        onChunk: (delta) => {
+          streamed += delta;
+          publishPartial();
+        },
+        onRetry: (attempt) => {
+          // The stream restarts from scratch, so drop what the failed attempt produced
+          publishPartial.cancel();
+          streamed = "";
+          updateStep(step.id, { result: undefined, thinking: undefined, attempts: attempt });
+        },
+        onContinue: (continuation) => updateStep(step.id, { continuations: continuation }),
+        onCodeExecuted: (runs) => updateStep(step.id, { executions: runs }),
+        onFixAttempt: (attempt) => {
+          // The fixed answer replaces the failing one
+          publishPartial.cancel();
+          streamed = "";
+          updateStep(step.id, { result: undefined, thinking: undefined, fixAttempts: attempt });
+        },
+        // The planner puts the solution step last
+        isFinalStep: steps[steps.length - 1]?.id === step.id,
+        onReview: (stepReview) => updateStep(step.id, { review: stepReview }),
+        onRevision: (stepDrafts) => {
+          // The draft stays visible in the card while the revision streams in
+          publishPartial.cancel();
+          streamed = "";
+          updateStep(step.id, { result: undefined, thinking: undefined, review: undefined, drafts: stepDrafts });
+        },
+        onContextPrepared: (coverage) => onContextPrepared?.(step.id, coverage),
+        budget,
+        onUsage: (usage) => updateStep(step.id, { usage: addUsage(previousUsage, usage) }),
+        signal: controller.signal,
+      });
+      publishPartial.cancel();
+
+      updateStep(step.id, {
+        status: StepStatus.COMPLETED,
+        result,
+        thinking,
+        continuations: continuations || undefined,
+        truncated: truncated || undefined,
+        executions: executions.length ? executions : undefined,
+        fixAttempts: fixAttempts || undefined,
+        review,
+        drafts: drafts.length ? drafts : undefined,
+        completedAt: Date.now(),
+      });
+      return 'completed';
+    } catch (err) {
+      publishPartial.cancel();
+
+      if (controller.signal.aborted) {
+        // Keep whatever streamed in before the abort so the user can see it
+        const { thinking, content } = extractThinking(streamed);
+        updateStep(step.id, { status: StepStatus.CANCELLED, result: content || undefined, thinking, completedAt: Date.now() });
+        return 'cancelled';
+      }
+
+      console.error("Step execution failed:", err);
+      updateStep(step.id, {
+        status: StepStatus.FAILED,
+        result: undefined,
+        thinking: undefined,
+        error: getErrorMessage(err),
+        attempts: err instanceof StepExecutionError ? err.attempts : undefined,
+        completedAt: Date.now(),
+      });
+      return 'failed';
+    } finally {
+      abortControllers.delete(controller);
+    }
+  };
+
+  const start = async () => {
+    if (running) return;
+    running = true;
+    pauseRequested = false;
+    cancelRequested = false;
+    onStateChange({ isExecuting: true, isPaused: false, pauseRequested: false });
+
+    // A stopped or failed step would block its dependents forever
+    getSteps().filter(isInterruptedStep).forEach(s => updateStep(s.id, PENDING_STEP_RESET));
+
+    // Everything spent so far counts against the budget, including attempts of steps being run again
+    const limits = getBudget();
+    const budget = limits?.maxTokens || limits?.maxCost
+      ? createBudgetGuard(limits, getPrices(), [...getOtherUsage(), ...getSteps().map(s => s.usage)])
+      : undefined;
+
+    const inFlight = new Map<string, Promise<void>>();
+    // Set when a step fails or is stopped: in-flight steps finish, nothing new starts
+    let halted = false;
+
+    try {
+      while (true) {
+        if (!pauseRequested && !halted) {
+          const limit = Math.max(1, getMaxConcurrency());
+          const ready = getReadySteps(getSteps()).filter(s => !inFlight.has(s.id));
+
+          ready.slice(0, limit - inFlight.size).forEach(step => {
+            const task = runStep(step, budget)
+              .then(outcome => { if (outcome !== 'completed') halted = true; })
+              .finally(() => { inFlight.delete(step.id); });
+            inFlight.set(step.id, task);
+          });
+        }
+
+        if (inFlight.size === 0) break;
+        await Promise.race(inFlight.values());
+      }
+
+      // Anything unfinished was paused, stopped, or is blocked behind a failed step
+      const canResume = !cancelRequested && getSteps().some(s => s.status === StepStatus.PENDING || isInterruptedStep(s));
+      onStateChange({ isExecuting: false, isPaused: canResume, pauseRequested: false, currentStepId: null });
+    } finally {
+      running = false;
+      pauseRequested = false;
+    }
+  };
+
+  const pause = () => {
+    if (!running) return;
+    pauseRequested = true;
+    onStateChange({ pauseRequested: true });
+  };
+
+  const abortAll = () => {
+    abortControllers.forEach(controller => controller.abort());
+  };
+
+  const stop = () => {
+    abortAll();
+  };
+
+  const cancel = () => {
+    cancelRequested = true;
+    abortAll();
+    skipPendingSteps();
+    onStateChange({ isExecuting: false, isPaused: false, pauseRequested: false, currentStepId: null });
+  };
+
+  const rerunFrom = async (stepId: string) => {
+    if (running) return;
+    getDownstreamStepIds(stepId, getSteps()).forEach(id => updateStep(id, PENDING_STEP_RESET));
+    await start();
+  };
+
+  return {
+    start,
+    pause,
+    stop,
+    cancel,
+    rerunFrom,
+    isRunning: () => running,
+  };
+};
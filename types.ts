@@ -1,28 +1,239 @@
 export interface UploadedFile {
   id: string;
   name: string;
+  /** Relative path when the file came from a folder or archive, e.g. "src/index.ts". */
+  path?: string;
   content: string | ArrayBuffer | null;
   category: 'code' | 'text' | 'image' | 'pdf' | 'document' | 'unknown';
   size: number;
 }
 
+/**
+ * How much of a file actually reached the model after context budgeting.
+ */
+export interface FileCoverage {
+  fileId: string;
+  name: string;
+  originalTokens: number;
+  includedTokens: number;
+  mode: 'full' | 'truncated' | 'summarized' | 'omitted' | 'image';
+  /** The text came from OCR of an image rather than from the file itself. */
+  ocr?: boolean;
+}
+
 export enum StepStatus {
   PENDING = 'PENDING',
   PROCESSING = 'PROCESSING',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED',
+  SKIPPED = 'SKIPPED',
 }
 
-export interface WorkflowStep {
+export type StepOutputType = 'analysis' | 'code' | 'report' | 'data';
+
+/**
+ * A step as produced by the planner, after runtime validation.
+ */
+export interface PlannedStep {
   id: string;
+  title: string;
+  instructions: string;
+  outputType: StepOutputType;
+  targetFiles: string[];
+  dependsOn: string[];
+}
+
+/**
+ * A saved, reusable plan. Titles, instructions and target files may contain
+ * `{{variable}}` placeholders that are filled in when the template is used.
+ */
+export interface WorkflowTemplate {
+  id: string;
+  name: string;
   description: string;
+  createdAt: number;
+  updatedAt: number;
+  steps: PlannedStep[];
+}
+
+/**
+ * Sampling and length settings for model calls. Unset fields fall back to
+ * the workflow's settings, then to the built-in defaults.
+ */
+export interface GenerationSettings {
+  /** Model id for the configured provider. */
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stopSequences?: string[];
+  /** False asks the model to answer without a reasoning phase. */
+  thinking?: boolean;
+  /** Run the code a code step produces in the sandbox and send failures back to the model. */
+  verifyCode?: boolean;
+  /** How many times the model may fix code that failed in the sandbox. */
+  maxFixAttempts?: number;
+  /** Which step results a reviewer scores against the goal and files. */
+  review?: ReviewMode;
+  /** Results scoring below this (0-10) are revised. */
+  reviewThreshold?: number;
+  /** How many times a step may be revised after a low review score. */
+  maxRevisions?: number;
+}
+
+export type ReviewMode = 'off' | 'final' | 'all';
+
+export type ReviewIssueSeverity = 'major' | 'minor';
+
+/**
+ * A reviewer's verdict on a step result, scored against a fixed rubric.
+ */
+export interface StepReview {
+  /** Overall score from 0 to 10. */
+  score: number;
+  summary: string;
+  criteria: { name: string; score: number; comment?: string }[];
+  issues: { severity: ReviewIssueSeverity; description: string }[];
+}
+
+/**
+ * An earlier version of a step result that was revised after its review.
+ */
+export interface StepDraft {
+  result: string;
+  thinking?: string;
+  review: StepReview;
+}
+
+/**
+ * One run of generated code in the in-browser sandbox.
+ */
+export interface CodeExecutionResult {
+  language: string;
+  /** Path of the file that was run; the other files were only checked for syntax. */
+  entry: string;
+  /** Null when the run was killed or never started. */
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut?: boolean;
+  /** Set when the sandbox itself failed, e.g. the runtime didn't load; the code didn't run. */
+  error?: string;
+  durationMs: number;
+}
+
+export interface WorkflowStep {
+  id: string;
+  description: string; // Short title shown in the UI
   status: StepStatus;
   result?: string;
   thinking?: string; // Add this new field
+  error?: string; // Set when the step FAILED; result stays empty
+  attempts?: number; // Model calls made for the last run, including retries
+  startedAt?: number; // Epoch ms
+  completedAt?: number; // Epoch ms, set for COMPLETED, FAILED and CANCELLED
+  instructions?: string;
+  outputType?: StepOutputType;
+  targetFiles?: string[];
+  dependsOn?: string[];
+  /** Overrides of the workflow's generation settings for this step. */
+  settings?: GenerationSettings;
+  continuations?: number; // Follow-up requests made because the output hit the token limit
+  truncated?: boolean; // Still cut off after the last allowed continuation
+  executions?: CodeExecutionResult[]; // Sandbox runs of the generated code, oldest first
+  fixAttempts?: number; // Times the model was asked to fix code that failed in the sandbox
+  review?: StepReview; // Reviewer's verdict on the current result
+  drafts?: StepDraft[]; // Earlier results replaced by a revision, oldest first
+  usage?: ModelUsage; // Tokens and time of the step's model calls, including earlier attempts
 }
 
 export interface AgentState {
   isAnalyzing: boolean;
+  /** Goal the current workflow was planned with; reused for every step and rerun. */
+  goal: string;
+  /** Plan generated but waiting for the user to review it before running. */
+  isReviewing: boolean;
   isExecuting: boolean;
+  isPaused: boolean;
+  pauseRequested: boolean;
   currentStepId: string | null;
-}
\ No newline at end of file
+}
+
+/**
+ * One message of the follow-up chat about a finished run.
+ */
+export interface FollowUpMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  thinking?: string;
+  createdAt: number;
+  /** Set on an assistant message whose request failed; it is not sent back to the model. */
+  error?: string;
+  /** Step created from this answer, when it was added to the workflow. */
+  promotedStepId?: string;
+  /** What answering used; counted with the step once the answer is added to the workflow. */
+  usage?: ModelUsage;
+}
+
+/**
+ * Price of a model in USD per million tokens.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** Prices by model id; a key ending in `*` matches every id starting with the rest. */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Tokens and time spent on the model calls of a step or of planning. Counts
+ * come from the provider when it reports them and are estimated otherwise.
+ */
+export interface ModelUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** At least one call's counts were estimated from the text. */
+  estimated?: boolean;
+  /** Model calls made, including retries, continuations, code fixes and reviews. */
+  calls: number;
+  /** Time spent waiting for the model. */
+  durationMs: number;
+  /** Time from sending the first answer's request to its first streamed token. */
+  timeToFirstTokenMs?: number;
+}
+
+/**
+ * Ceilings for the model calls of a run; unset limits are unlimited.
+ */
+export interface RunBudget {
+  /** Prompt plus completion tokens. */
+  maxTokens?: number;
+  /** USD, by the price table; calls to models without a price count as free. */
+  maxCost?: number;
+}
+
+/**
+ * A workflow as persisted in IndexedDB: inputs, plan and every result.
+ */
+export interface WorkflowRun {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  goal: string;
+  files: UploadedFile[];
+  steps: WorkflowStep[];
+  provider: string;
+  model: string;
+  settings?: GenerationSettings;
+  chat?: FollowUpMessage[];
+  /** Model calls made to plan the workflow, summed over regenerations. */
+  planUsage?: ModelUsage;
+  /** Follow-up answers cleared from the chat without being added to the workflow. */
+  followUpUsage?: ModelUsage;
+  budget?: RunBudget;
+}
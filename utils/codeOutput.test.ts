@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { UploadedFile } from '../types';
+import { extractCodeFiles, findOriginalFile, getExtension } from './codeOutput';
+
+describe('extractCodeFiles', () => {
+  it('reads the path from the info string in its different spellings', () => {
+    const markdown = [
+      '```python path=src/parser.py\nprint(1)\n```',
+      '```ts:src/index.ts\nexport {};\n```',
+      '```src/util.js\nconst a = 1;\n```',
+      '```json title="config.json"\n{}\n```',
+    ].join('\n\n');
+
+    expect(extractCodeFiles(markdown)).toEqual([
+      { language: 'python', path: 'src/parser.py', code: 'print(1)\n' },
+      { language: 'ts', path: 'src/index.ts', code: 'export {};\n' },
+      { language: 'js', path: 'src/util.js', code: 'const a = 1;\n' },
+      { language: 'json', path: 'config.json', code: '{}\n' },
+    ]);
+  });
+
+  it('takes the path from a line just before the block', () => {
+    const markdown = 'File: `lib/a.py`\n```python\nx = 1\n```\n\n### lib/b.py\n```python\ny = 2\n```\n\n**`lib/c.py`**\n\n```python\nz = 3\n```';
+
+    expect(extractCodeFiles(markdown).map(f => f.path)).toEqual(['lib/a.py', 'lib/b.py', 'lib/c.py']);
+  });
+
+  it('leaves blocks without a path untagged', () => {
+    expect(extractCodeFiles('Run it:\n```bash\npython main.py\n```\n```\nplain\n```')).toEqual([
+      { language: 'bash', path: undefined, code: 'python main.py\n' },
+      { language: 'txt', path: undefined, code: 'plain\n' },
+    ]);
+  });
+});
+
+describe('findOriginalFile', () => {
+  const file = (path: string): UploadedFile =>
+    ({ id: path, name: path.split('/').pop()!, path, size: 1, content: '', category: 'code' });
+  const files = [file('app/src/parser.py'), file('app/src/util.py'), file('app/tests/util.py')];
+
+  it('matches the exact path, then the trailing segments, then a unique name', () => {
+    expect(findOriginalFile('./app/src/util.py', files)?.id).toBe('app/src/util.py');
+    expect(findOriginalFile('tests/util.py', files)?.id).toBe('app/tests/util.py');
+    expect(findOriginalFile('repo/app/src/parser.py', files)?.id).toBe('app/src/parser.py');
+    expect(findOriginalFile('lib/parser.py', files)?.id).toBe('app/src/parser.py');
+  });
+
+  it('gives up when the name is ambiguous or unknown', () => {
+    expect(findOriginalFile('util.py', files)).toBeUndefined();
+    expect(findOriginalFile('main.py', files)).toBeUndefined();
+  });
+});
+
+describe('getExtension', () => {
+  it('maps languages to extensions', () => {
+    expect(getExtension('Python')).toBe('py');
+    expect(getExtension('rust')).toBe('rs');
+    expect(getExtension('cobol')).toBe('txt');
+  });
+});
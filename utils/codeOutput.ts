@@ -0,0 +1,90 @@
+import { UploadedFile } from '../types';
+import { getFilePath } from './fileTree';
+
+export interface CodeFile {
+  /** Path the model gave for the block, if any. */
+  path?: string;
+  language: string;
+  code: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  python: 'py', py: 'py',
+  javascript: 'js', js: 'js',
+  typescript: 'ts', ts: 'ts',
+  tsx: 'tsx', jsx: 'jsx',
+  cpp: 'cpp', c: 'c',
+  java: 'java', go: 'go', rust: 'rs',
+  html: 'html', css: 'css',
+  json: 'json',
+  markdown: 'md',
+};
+
+export const getExtension = (language: string): string => EXTENSIONS[language.toLowerCase()] || 'txt';
+
+// ```python path=src/parser.py   or   ```python src/parser.py   or   ```src/parser.py
+const FENCE_REGEX = /```([^\n`]*)\n([\s\S]*?)```/g;
+// "File: src/parser.py" / "**`src/parser.py`**" / "### src/parser.py" on the line before a block
+const PATH_LINE_REGEX = /(?:^|\n)[ \t]*(?:#{1,6}[ \t]*)?(?:\*\*)?(?:File(?:name)?:?[ \t]*)?(?:\*\*)?[ \t]*`?([\w./-]+\.[\w]+)`?(?:\*\*)?:?[ \t]*\n*$/i;
+
+const parseInfoString = (info: string): { language: string; path?: string } => {
+  const tokens = info.trim().split(/\s+/).filter(Boolean);
+  let language = '';
+  let path: string | undefined;
+
+  tokens.forEach(token => {
+    const attr = token.match(/^(?:path|file|filename|title)=["']?([^"']+)["']?$/i);
+    if (attr) path = attr[1];
+    else if (token.includes(':') && !language) {
+      // ```python:src/parser.py
+      const [lang, rest] = token.split(':');
+      language = lang;
+      path = rest || path;
+    } else if (/[./]/.test(token) && !path) path = token;
+    else if (!language) language = token;
+  });
+
+  return { language: language || (path ? path.split('.').pop() || 'txt' : 'txt'), path };
+};
+
+/**
+ * Every fenced code block in a step result, with the file path the model
+ * tagged it with (info string attribute or a "File:" line just before it).
+ */
+export const extractCodeFiles = (markdown: string): CodeFile[] => {
+  const files: CodeFile[] = [];
+  let match: RegExpExecArray | null;
+  FENCE_REGEX.lastIndex = 0;
+
+  while ((match = FENCE_REGEX.exec(markdown)) !== null) {
+    const { language, path } = parseInfoString(match[1]);
+    const before = markdown.slice(Math.max(0, match.index - 200), match.index);
+    files.push({
+      language,
+      path: path || before.match(PATH_LINE_REGEX)?.[1],
+      code: match[2],
+    });
+  }
+  return files;
+};
+
+/**
+ * The uploaded file a generated path refers to: exact path first, then a
+ * unique match on the trailing path segments (the model often drops the
+ * leading folder).
+ */
+export const findOriginalFile = (path: string, files: UploadedFile[]): UploadedFile | undefined => {
+  const normalized = path.replace(/^\.?\//, '');
+  const exact = files.find(f => getFilePath(f) === normalized);
+  if (exact) return exact;
+
+  const candidates = files.filter(f => {
+    const filePath = getFilePath(f);
+    return filePath.endsWith(`/${normalized}`) || normalized.endsWith(`/${filePath}`);
+  });
+  if (candidates.length === 1) return candidates[0];
+
+  const name = normalized.split('/').pop();
+  const byName = files.filter(f => f.name === name);
+  return byName.length === 1 ? byName[0] : undefined;
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { applyHunks, computeHunks, createFilePatch, splitLines } from './diff';
+
+const numbered = (count: number, change: Record<number, string> = {}) =>
+  Array.from({ length: count }, (_, i) => `${change[i + 1] ?? `line ${i + 1}`}\n`).join('');
+
+describe('splitLines', () => {
+  it('keeps line endings and a last line without one', () => {
+    expect(splitLines('a\nb\n')).toEqual(['a\n', 'b\n']);
+    expect(splitLines('a\nb')).toEqual(['a\n', 'b']);
+    expect(splitLines('')).toEqual([]);
+  });
+});
+
+describe('computeHunks', () => {
+  it('returns nothing for identical texts', () => {
+    expect(computeHunks(numbered(5), numbered(5))).toEqual([]);
+  });
+
+  it('splits distant changes into hunks with three lines of context', () => {
+    const hunks = computeHunks(numbered(30), numbered(30, { 5: 'five', 25: 'twenty-five' }));
+
+    expect(hunks.map(h => [h.oldStart, h.oldLines, h.newStart, h.newLines])).toEqual([[2, 7, 2, 7], [22, 7, 22, 7]]);
+    expect(hunks[0].lines.filter(l => l.type !== 'context')).toEqual([
+      { type: 'remove', text: 'line 5\n' },
+      { type: 'add', text: 'five\n' },
+    ]);
+  });
+
+  it('merges changes whose context overlaps', () => {
+    expect(computeHunks(numbered(20), numbered(20, { 5: 'five', 10: 'ten' }))).toHaveLength(1);
+  });
+
+  it('counts an empty old range from the line before it', () => {
+    const [hunk] = computeHunks('a\nb\n', 'a\nb\nc\n');
+
+    expect([hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines]).toEqual([1, 2, 1, 3]);
+    expect(computeHunks('', 'new\n')[0]).toMatchObject({ oldStart: 0, oldLines: 0, newStart: 1, newLines: 1 });
+  });
+});
+
+describe('applyHunks', () => {
+  const oldText = numbered(30);
+  const newText = numbered(30, { 5: 'five', 25: 'twenty-five' }).replace('line 12\n', '');
+  const hunks = computeHunks(oldText, newText);
+
+  it('rebuilds either file when all or none of the hunks are accepted', () => {
+    expect(applyHunks(oldText, hunks, () => true)).toBe(newText);
+    expect(applyHunks(oldText, hunks, () => false)).toBe(oldText);
+  });
+
+  it('takes only the accepted hunks', () => {
+    const merged = applyHunks(oldText, hunks, hunk => hunk === hunks[hunks.length - 1]);
+
+    expect(merged).toContain('line 5\n');
+    expect(merged).toContain('line 12\n');
+    expect(merged).toContain('twenty-five\n');
+  });
+});
+
+describe('createFilePatch', () => {
+  it('writes a unified diff that marks a missing final newline', () => {
+    expect(createFilePatch('src/a.txt', 'one\ntwo\n', 'one\n2')).toBe([
+      'diff --git a/src/a.txt b/src/a.txt',
+      '--- a/src/a.txt',
+      '+++ b/src/a.txt',
+      '@@ -1,2 +1,2 @@',
+      ' one',
+      '-two',
+      '+2',
+      '\\ No newline at end of file',
+      '',
+    ].join('\n'));
+  });
+
+  it('writes new files against /dev/null and nothing for unchanged ones', () => {
+    expect(createFilePatch('b.txt', null, 'hi\n')).toBe(
+      'diff --git a/b.txt b/b.txt\nnew file mode 100644\n--- /dev/null\n+++ b/b.txt\n@@ -0,0 +1,1 @@\n+hi\n'
+    );
+    expect(createFilePatch('b.txt', 'same\n', 'same\n')).toBe('');
+  });
+});
@@ -0,0 +1,193 @@
+export type DiffLineType = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffLineType;
+  /** Line text including its trailing "\n" (absent only on a file's last line). */
+  text: string;
+}
+
+export interface DiffHunk {
+  id: string;
+  /** 1-based start lines and line counts, as in a unified diff header. */
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+// Beyond this many edits the files are treated as completely rewritten;
+// Myers' trace grows with the square of the edit distance
+const MAX_EDIT_DISTANCE = 2000;
+const CONTEXT_LINES = 3;
+
+/**
+ * Split into lines, keeping each line's "\n" so a missing newline at the
+ * end of a file shows up as a change.
+ */
+export const splitLines = (text: string): string[] => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+
+/**
+ * Myers' O(ND) diff over two line arrays.
+ */
+const diffLines = (a: string[], b: string[]): DiffLine[] => {
+  // Common prefix and suffix don't need the expensive part
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const prefix = a.slice(0, start).map(text => ({ type: 'context' as const, text }));
+  const suffix = a.slice(endA).map(text => ({ type: 'context' as const, text }));
+  const oldMid = a.slice(start, endA);
+  const newMid = b.slice(start, endB);
+  const n = oldMid.length;
+  const m = newMid.length;
+
+  const rewrite = (): DiffLine[] => [
+    ...oldMid.map(text => ({ type: 'remove' as const, text })),
+    ...newMid.map(text => ({ type: 'add' as const, text })),
+  ];
+  if (n === 0 || m === 0) return [...prefix, ...rewrite(), ...suffix];
+
+  const maxD = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = maxD + 1;
+  const v = new Int32Array(2 * maxD + 3);
+  const trace: Int32Array[] = [];
+  let found = false;
+
+  for (let d = 0; d <= maxD && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldMid[x] === newMid[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) { found = true; break; }
+    }
+  }
+  if (!found) return [...prefix, ...rewrite(), ...suffix];
+
+  // Walk the trace backwards to recover the edit script
+  const middle: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && snapshot[offset + k - 1] < snapshot[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : snapshot[offset + prevK];
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      middle.push({ type: 'context', text: oldMid[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) middle.push({ type: 'add', text: newMid[y - 1] });
+      else middle.push({ type: 'remove', text: oldMid[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return [...prefix, ...middle.reverse(), ...suffix];
+};
+
+/**
+ * Group a line diff into unified-diff hunks with a few lines of context.
+ */
+export const computeHunks = (oldText: string, newText: string): DiffHunk[] => {
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const hunks: DiffHunk[] = [];
+
+  // Old/new line number before each diff line
+  const positions: { old: number; new: number }[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  lines.forEach(line => {
+    positions.push({ old: oldLine, new: newLine });
+    if (line.type !== 'add') oldLine++;
+    if (line.type !== 'remove') newLine++;
+  });
+
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === 'context') { i++; continue; }
+
+    const from = Math.max(0, i - CONTEXT_LINES);
+    let to = i;
+    // Extend while the next change is close enough to share context
+    while (to < lines.length) {
+      let next = to;
+      while (next < lines.length && lines[next].type !== 'context') next++;
+      let gap = next;
+      while (gap < lines.length && lines[gap].type === 'context') gap++;
+      if (gap < lines.length && gap - next <= CONTEXT_LINES * 2) to = gap;
+      else { to = Math.min(lines.length, next + CONTEXT_LINES); break; }
+    }
+
+    const hunkLines = lines.slice(from, to);
+    const oldLines = hunkLines.filter(l => l.type !== 'add').length;
+    const newLines = hunkLines.filter(l => l.type !== 'remove').length;
+    hunks.push({
+      id: `${positions[from].old}:${positions[from].new}`,
+      // Unified diff convention: an empty range starts at the line before it
+      oldStart: oldLines ? positions[from].old : positions[from].old - 1,
+      oldLines,
+      newStart: newLines ? positions[from].new : positions[from].new - 1,
+      newLines,
+      lines: hunkLines,
+    });
+    i = to;
+  }
+  return hunks;
+};
+
+/**
+ * Rebuild the new file from the original, taking only the accepted hunks.
+ */
+export const applyHunks = (oldText: string, hunks: DiffHunk[], isAccepted: (hunk: DiffHunk) => boolean): string => {
+  const oldLines = splitLines(oldText);
+  let result = '';
+  let cursor = 0;
+
+  hunks.forEach(hunk => {
+    const hunkStart = hunk.oldLines ? hunk.oldStart - 1 : hunk.oldStart;
+    result += oldLines.slice(cursor, hunkStart).join('');
+    const keep: DiffLineType = isAccepted(hunk) ? 'add' : 'remove';
+    result += hunk.lines.filter(l => l.type === 'context' || l.type === keep).map(l => l.text).join('');
+    cursor = hunkStart + hunk.oldLines;
+  });
+
+  return result + oldLines.slice(cursor).join('');
+};
+
+const formatPatchLine = (line: DiffLine): string => {
+  const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+  return line.text.endsWith('\n')
+    ? `${prefix}${line.text}`
+    : `${prefix}${line.text}\n\\ No newline at end of file\n`;
+};
+
+/**
+ * A `git apply`-compatible patch for one file. `oldText` null means the file
+ * is new.
+ */
+export const createFilePatch = (path: string, oldText: string | null, newText: string): string => {
+  const hunks = computeHunks(oldText ?? '', newText);
+  if (hunks.length === 0) return '';
+
+  const header = oldText === null
+    ? `diff --git a/${path} b/${path}\nnew file mode 100644\n--- /dev/null\n+++ b/${path}\n`
+    : `diff --git a/${path} b/${path}\n--- a/${path}\n+++ b/${path}\n`;
+
+  return header + hunks.map(hunk =>
+    `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@\n` +
+    hunk.lines.map(formatPatchLine).join('')
+  ).join('');
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { expandZip } from './archive';
+
+const zipFile = async (name: string, entries: Record<string, string | Uint8Array>): Promise<File> => {
+  const zip = new JSZip();
+  Object.entries(entries).forEach(([path, content]) => zip.file(path, content));
+  return new File([await zip.generateAsync({ type: 'uint8array' })], name, { type: 'application/zip' });
+};
+
+describe('expandZip', () => {
+  it('expands members next to the archive, including nested archives', async () => {
+    const inner = await zipFile('inner.zip', { 'deep.txt': 'deep' });
+    const archive = await zipFile('project.zip', {
+      'src/main.py': 'print(1)',
+      'vendor/inner.zip': new Uint8Array(await inner.arrayBuffer()),
+      'node_modules/x.js': 'skip me',
+    });
+
+    const members = await expandZip(archive, 'uploads/project.zip', path => path.includes('node_modules'));
+
+    expect(members.map(m => m.path).sort()).toEqual(['uploads/src/main.py', 'uploads/vendor/deep.txt']);
+    expect(await members.find(m => m.path.endsWith('main.py'))!.file.text()).toBe('print(1)');
+  });
+
+  it('skips a damaged archive nested in a good one', async () => {
+    const archive = await zipFile('project.zip', { 'a.txt': 'a', 'broken.zip': 'not a zip' });
+
+    expect((await expandZip(archive)).map(m => m.path)).toEqual(['a.txt']);
+  });
+
+  it('rejects a damaged archive with its name', async () => {
+    const broken = new File(['not a zip'], 'broken.zip', { type: 'application/zip' });
+
+    await expect(expandZip(broken)).rejects.toThrow(/^broken\.zip is not a readable ZIP archive/);
+  });
+});
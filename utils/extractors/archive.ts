@@ -0,0 +1,61 @@
+import JSZip from 'jszip';
+import { FileWithPath } from '../folderUpload';
+import { getMimeType } from '../fileUtils';
+import { getErrorMessage } from '../../services/errors';
+
+// Keep a dropped project archive from flooding the prompt (and the tab's memory)
+const MAX_ARCHIVE_FILES = 300;
+const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+
+export const isZipFile = (file: File): boolean =>
+  file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+
+/**
+ * Expand a ZIP archive into its member files, with paths relative to the
+ * archive's own location, so each member goes through the normal
+ * extractors. Nested archives are expanded as well; a damaged one is skipped,
+ * while a damaged top-level archive throws.
+ */
+export const expandZip = async (
+  file: File,
+  path: string = file.name,
+  shouldSkip: (path: string) => boolean = () => false
+): Promise<FileWithPath[]> => {
+  const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/') + 1) : '';
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+  } catch (error) {
+    throw new Error(`${file.name} is not a readable ZIP archive: ${getErrorMessage(error)}`);
+  }
+  const entries = Object.values(zip.files).filter(entry => !entry.dir && !shouldSkip(folder + entry.name));
+
+  const members: FileWithPath[] = [];
+  let totalBytes = 0;
+  for (const entry of entries.slice(0, MAX_ARCHIVE_FILES)) {
+    const blob = await entry.async('blob');
+    totalBytes += blob.size;
+    if (totalBytes > MAX_ARCHIVE_BYTES) {
+      console.warn(`${file.name}: stopped after ${members.length} files, archive exceeds ${MAX_ARCHIVE_BYTES} bytes`);
+      break;
+    }
+
+    const memberPath = folder + entry.name;
+    const member = new File([blob], memberPath.split('/').pop() || entry.name, { type: getMimeType(entry.name) });
+    if (!isZipFile(member)) {
+      members.push({ file: member, path: memberPath });
+      continue;
+    }
+    // A damaged archive inside a good one only loses its own files
+    try {
+      members.push(...await expandZip(member, memberPath, shouldSkip));
+    } catch (error) {
+      console.warn(`${memberPath}: skipped, not a readable ZIP archive`, error);
+    }
+  }
+
+  if (entries.length > MAX_ARCHIVE_FILES) {
+    console.warn(`${file.name}: only the first ${MAX_ARCHIVE_FILES} of ${entries.length} files were extracted`);
+  }
+  return members;
+};
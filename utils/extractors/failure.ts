@@ -0,0 +1,20 @@
+import { getErrorMessage } from '../../services/errors';
+
+/**
+ * Stands in for the text of a file that couldn't be read, so the model is
+ * told why the file is empty instead of the whole upload failing.
+ */
+export const extractionFailed = (error: unknown): string =>
+  `[Could not extract text: ${getErrorMessage(error)}]`;
+
+/**
+ * Runs an extractor, turning a malformed file into the placeholder above.
+ */
+export const extractSafely = async (extract: () => string | Promise<string>): Promise<string> => {
+  try {
+    return await extract();
+  } catch (error) {
+    console.warn("Text extraction failed:", error);
+    return extractionFailed(error);
+  }
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { extractTextFromNotebook } from './notebook';
+
+describe('extractTextFromNotebook', () => {
+  it('renders markdown cells, code cells and their outputs', () => {
+    const notebook = JSON.stringify({
+      metadata: { language_info: { name: 'python' } },
+      cells: [
+        { cell_type: 'markdown', source: ['# Title\n', 'Intro'] },
+        {
+          cell_type: 'code',
+          execution_count: 3,
+          source: 'print(1)',
+          outputs: [
+            { output_type: 'stream', text: ['1\n'] },
+            { output_type: 'display_data', data: { 'image/png': 'iVBOR' } },
+            { output_type: 'error', ename: 'ValueError', evalue: 'bad' },
+          ],
+        },
+      ],
+    });
+
+    expect(extractTextFromNotebook(notebook)).toBe(
+      '# Title\nIntro\n\nIn [3]:\n```python\nprint(1)\n```\nOutput:\n```\n1\n\n[image/png output]\nValueError: bad\n```'
+    );
+  });
+
+  it('gives a placeholder for invalid JSON', () => {
+    expect(extractTextFromNotebook('{"cells": [')).toMatch(/^\[Could not extract text: invalid notebook JSON \(.+\)\]$/);
+  });
+
+  it('gives a placeholder for JSON that is not a notebook', () => {
+    expect(extractTextFromNotebook('{"cells": "nope"}')).toBe('[Could not extract text: not a Jupyter notebook]');
+  });
+});
@@ -0,0 +1,73 @@
+import { extractionFailed } from './failure';
+
+// Outputs such as long training logs add little; keep their head
+const MAX_OUTPUT_CHARS = 2000;
+
+interface NotebookOutput {
+  output_type: string;
+  text?: string | string[];
+  data?: Record<string, string | string[]>;
+  ename?: string;
+  evalue?: string;
+}
+
+interface NotebookCell {
+  cell_type: 'code' | 'markdown' | 'raw';
+  source: string | string[];
+  execution_count?: number | null;
+  outputs?: NotebookOutput[];
+}
+
+const joinSource = (source: string | string[] | undefined): string =>
+  Array.isArray(source) ? source.join('') : source || '';
+
+const clip = (text: string): string =>
+  text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}\n[... output truncated ...]` : text;
+
+const formatOutput = (output: NotebookOutput): string => {
+  switch (output.output_type) {
+    case 'stream':
+      return clip(joinSource(output.text));
+    case 'error':
+      return `${output.ename}: ${output.evalue}`;
+    case 'execute_result':
+    case 'display_data': {
+      const data = output.data || {};
+      if (data['text/plain']) return clip(joinSource(data['text/plain']));
+      const mime = Object.keys(data).find(type => type.startsWith('image/'));
+      return mime ? `[${mime} output]` : '';
+    }
+    default:
+      return '';
+  }
+};
+
+type Notebook = {
+  cells?: NotebookCell[];
+  metadata?: { kernelspec?: { language?: string }; language_info?: { name?: string } };
+};
+
+/**
+ * Render a Jupyter notebook as Markdown: markdown cells as-is, code cells in
+ * fenced blocks followed by their outputs. Invalid JSON gives a placeholder.
+ */
+export const extractTextFromNotebook = (json: string): string => {
+  let notebook: Notebook;
+  try {
+    notebook = JSON.parse(json);
+    if (!notebook || typeof notebook !== 'object' || !Array.isArray(notebook.cells ?? [])) throw new Error('not a Jupyter notebook');
+  } catch (error) {
+    return extractionFailed(error instanceof SyntaxError ? new Error(`invalid notebook JSON (${error.message})`) : error);
+  }
+  const language = notebook.metadata?.language_info?.name || notebook.metadata?.kernelspec?.language || 'python';
+
+  return (notebook.cells || []).map(cell => {
+    const source = joinSource(cell.source).trimEnd();
+    if (cell.cell_type !== 'code') return source;
+
+    const label = `In [${cell.execution_count ?? ' '}]:`;
+    const outputs = (cell.outputs || []).map(formatOutput).filter(Boolean);
+    const rendered = outputs.length ? `\nOutput:\n\`\`\`\n${outputs.join('\n').trimEnd()}\n\`\`\`` : '';
+    return `${label}\n\`\`\`${language}\n${source}\n\`\`\`${rendered}`;
+  }).filter(Boolean).join('\n\n');
+};
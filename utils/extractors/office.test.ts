@@ -0,0 +1,81 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { DOMParser } from '@xmldom/xmldom';
+import { extractTextFromCsv, extractTextFromPptx, extractTextFromXlsx, MAX_SHEET_ROWS, parseCsv } from './office';
+
+// Helper to build an Office file from its XML parts
+const pack = async (parts: Record<string, string>): Promise<ArrayBuffer> => {
+  const zip = new JSZip();
+  Object.entries(parts).forEach(([path, xml]) => zip.file(path, xml));
+  return zip.generateAsync({ type: 'arraybuffer' });
+};
+
+const A = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"';
+const slide = (...paragraphs: string[]) =>
+  `<p:sld ${A} xmlns:p="p"><p:cSld>${paragraphs.map(p => `<a:p><a:r><a:t>${p}</a:t></a:r></a:p>`).join('')}</p:cSld></p:sld>`;
+
+describe('office extractors', () => {
+  beforeAll(() => {
+    // The extractors parse XML with the browser's DOMParser, as the CLI polyfills it
+    globalThis.DOMParser ??= DOMParser as unknown as typeof globalThis.DOMParser;
+  });
+
+  it('reads slides in order with their speaker notes', async () => {
+    const data = await pack({
+      'ppt/slides/slide10.xml': slide('Last'),
+      'ppt/slides/slide2.xml': slide('Second', 'More'),
+      'ppt/slides/slide1.xml': slide('First'),
+      'ppt/slides/_rels/slide1.xml.rels':
+        '<Relationships><Relationship Id="r1" Type="http://x/notesSlide" Target="../notesSlides/notesSlide1.xml"/></Relationships>',
+      'ppt/notesSlides/notesSlide1.xml': slide('Say hello', '1'),
+    });
+
+    expect(await extractTextFromPptx(data)).toBe(
+      '--- Slide 1 ---\nFirst\n\nSpeaker notes:\nSay hello\n\n--- Slide 2 ---\nSecond\nMore\n\n--- Slide 3 ---\nLast'
+    );
+  });
+
+  it('renders sheets as tables with shared and inline strings', async () => {
+    const data = await pack({
+      'xl/workbook.xml': '<workbook xmlns:r="r"><sheets><sheet name="Costs" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>Item</t></si><si><t>Price</t></si></sst>',
+      'xl/worksheets/sheet1.xml': `<worksheet><sheetData>
+        <row><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>
+        <row><c r="A2" t="inlineStr"><is><t>Tea</t></is></c><c r="C2" t="b"><v>1</v></c></row>
+      </sheetData></worksheet>`,
+    });
+
+    expect(await extractTextFromXlsx(data)).toBe(
+      '--- Sheet: Costs ---\n| Item | Price |  |\n| --- | --- | --- |\n| Tea |  | TRUE |'
+    );
+  });
+
+  it('gives a placeholder for files that are not Office documents', async () => {
+    const garbage = new TextEncoder().encode('not a zip at all').buffer as ArrayBuffer;
+
+    expect(await extractTextFromPptx(garbage)).toMatch(/^\[Could not extract text: .+\]$/);
+    expect(await extractTextFromXlsx(garbage)).toMatch(/^\[Could not extract text: .+\]$/);
+  });
+});
+
+describe('CSV', () => {
+  it('parses quoted fields, escaped quotes and embedded newlines', () => {
+    expect(parseCsv('a,"b, c"\r\n"say ""hi""","two\nlines"\n')).toEqual([
+      ['a', 'b, c'],
+      ['say "hi"', 'two\nlines'],
+    ]);
+  });
+
+  it('detects tabs and escapes pipes in cells', () => {
+    expect(extractTextFromCsv('name\tnote\nx\ta|b\n', 'data.txt')).toBe('| name | note |\n| --- | --- |\n| x | a\\|b |');
+  });
+
+  it('keeps the first rows of long files', () => {
+    const text = ['n', ...Array.from({ length: MAX_SHEET_ROWS + 5 }, (_, i) => String(i))].join('\n');
+    const table = extractTextFromCsv(text, 'numbers.csv');
+
+    expect(table.split('\n').filter(line => line.startsWith('| '))).toHaveLength(MAX_SHEET_ROWS + 2);
+    expect(table).toContain('[... 5 more rows omitted ...]');
+  });
+});
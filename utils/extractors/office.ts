@@ -0,0 +1,222 @@
+import JSZip from 'jszip';
+import { extractSafely } from './failure';
+
+// Spreadsheets can be huge; the context budgeter can't do much with 100k rows
+export const MAX_SHEET_ROWS = 200;
+export const MAX_SHEET_COLUMNS = 30;
+
+const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+const readXml = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const entry = zip.file(path);
+  return entry ? parseXml(await entry.async('string')) : null;
+};
+
+// Trailing number of e.g. "ppt/slides/slide12.xml"
+const partNumber = (path: string): number => Number(path.match(/(\d+)\.xml$/)?.[1] ?? 0);
+
+/**
+ * Resolve the targets of a part's relationships (`_rels/*.rels`) by type suffix.
+ */
+const getRelationshipTargets = async (zip: JSZip, partPath: string, typeSuffix: string): Promise<string[]> => {
+  const dir = partPath.slice(0, partPath.lastIndexOf('/'));
+  const file = partPath.slice(partPath.lastIndexOf('/') + 1);
+  const rels = await readXml(zip, `${dir}/_rels/${file}.rels`);
+  if (!rels) return [];
+
+  return Array.from(rels.getElementsByTagName('Relationship'))
+    .filter(rel => rel.getAttribute('Type')?.endsWith(typeSuffix))
+    .map(rel => {
+      const target = rel.getAttribute('Target') || '';
+      if (target.startsWith('/')) return target.slice(1);
+      // Resolve "../notesSlides/notesSlide1.xml" against the part's folder
+      const parts = `${dir}/${target}`.split('/');
+      const resolved: string[] = [];
+      parts.forEach(part => part === '..' ? resolved.pop() : part !== '.' && resolved.push(part));
+      return resolved.join('/');
+    });
+};
+
+/**
+ * Text of a DrawingML part, one line per paragraph.
+ */
+const getParagraphs = (doc: Document): string[] =>
+  Array.from(doc.getElementsByTagName('a:p'))
+    .map(p => Array.from(p.getElementsByTagName('a:t')).map(t => t.textContent || '').join(''))
+    .filter(line => line.trim());
+
+/**
+ * Slide text and speaker notes, in slide order. A damaged file gives a
+ * placeholder instead of throwing.
+ */
+export const extractTextFromPptx = (data: ArrayBuffer): Promise<string> => extractSafely(async () => {
+  const zip = await JSZip.loadAsync(data);
+  const slidePaths = Object.keys(zip.files)
+    .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => partNumber(a) - partNumber(b));
+
+  const sections: string[] = [];
+  for (const [index, path] of slidePaths.entries()) {
+    const slide = await readXml(zip, path);
+    let section = `--- Slide ${index + 1} ---\n${slide ? getParagraphs(slide).join('\n') : ''}`;
+
+    const [notesPath] = await getRelationshipTargets(zip, path, '/notesSlide');
+    const notes = notesPath ? await readXml(zip, notesPath) : null;
+    // Notes slides repeat the slide number as a paragraph; drop bare numbers
+    const noteLines = notes ? getParagraphs(notes).filter(line => !/^\d+$/.test(line.trim())) : [];
+    if (noteLines.length) section += `\n\nSpeaker notes:\n${noteLines.join('\n')}`;
+
+    sections.push(section);
+  }
+  return sections.join('\n\n');
+});
+
+/**
+ * Render rows as a Markdown table, keeping at most MAX_SHEET_ROWS body rows.
+ */
+export const rowsToMarkdownTable = (rows: string[][]): string => {
+  const nonEmpty = rows.filter(row => row.some(cell => cell.trim()));
+  if (nonEmpty.length === 0) return '(empty)';
+
+  const width = Math.min(MAX_SHEET_COLUMNS, Math.max(...nonEmpty.map(row => row.length)));
+  const format = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => (row[i] ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ').trim()).join(' | ')} |`;
+
+  const [header, ...body] = nonEmpty;
+  const lines = [format(header), `| ${Array(width).fill('---').join(' | ')} |`, ...body.slice(0, MAX_SHEET_ROWS).map(format)];
+  if (body.length > MAX_SHEET_ROWS) lines.push(`\n[... ${body.length - MAX_SHEET_ROWS} more rows omitted ...]`);
+  return lines.join('\n');
+};
+
+// "BC12" -> 54 (zero-based column index)
+const columnIndex = (ref: string): number =>
+  (ref.match(/^[A-Z]+/)?.[0] || 'A').split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+const readSheetRows = (sheet: Document, sharedStrings: string[]): string[][] => {
+  const rows: string[][] = [];
+  Array.from(sheet.getElementsByTagName('row')).forEach(row => {
+    const cells: string[] = [];
+    Array.from(row.getElementsByTagName('c')).forEach(cell => {
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+      let text: string;
+      if (type === 's') text = sharedStrings[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = Array.from(cell.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else text = value;
+      cells[columnIndex(cell.getAttribute('r') || '')] = text;
+    });
+    rows.push(Array.from(cells, cell => cell ?? ''));
+  });
+  return rows;
+};
+
+/**
+ * Every sheet as a Markdown table. A damaged file gives a placeholder
+ * instead of throwing.
+ */
+export const extractTextFromXlsx = (data: ArrayBuffer): Promise<string> => extractSafely(async () => {
+  const zip = await JSZip.loadAsync(data);
+  const sharedDoc = await readXml(zip, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedDoc
+    ? Array.from(sharedDoc.getElementsByTagName('si')).map(si =>
+      Array.from(si.getElementsByTagName('t')).map(t => t.textContent || '').join(''))
+    : [];
+
+  // Sheet names live in workbook.xml, their files in its relationships
+  const workbook = await readXml(zip, 'xl/workbook.xml');
+  const rels = await readXml(zip, 'xl/_rels/workbook.xml.rels');
+  const targets = new Map(Array.from(rels?.getElementsByTagName('Relationship') || [])
+    .map(rel => [rel.getAttribute('Id'), (rel.getAttribute('Target') || '').replace(/^\/?(xl\/)?/, 'xl/')]));
+
+  const sheets = Array.from(workbook?.getElementsByTagName('sheet') || []).map(sheet => ({
+    name: sheet.getAttribute('name') || 'Sheet',
+    path: targets.get(sheet.getAttribute('r:id')),
+  }));
+
+  const sections: string[] = [];
+  for (const { name, path } of sheets) {
+    const sheet = path ? await readXml(zip, path) : null;
+    if (!sheet) continue;
+    sections.push(`--- Sheet: ${name} ---\n${rowsToMarkdownTable(readSheetRows(sheet, sharedStrings))}`);
+  }
+  return sections.join('\n\n');
+});
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes and embedded newlines.
+ */
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+export const extractTextFromCsv = (text: string, filename: string): string => {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  const delimiter = filename.toLowerCase().endsWith('.tsv') || firstLine.split('\t').length > firstLine.split(',').length ? '\t' : ',';
+  return rowsToMarkdownTable(parseCsv(text, delimiter));
+};
+
+/**
+ * Best effort for binary Word 97-2003 / PowerPoint 97-2003 files: pull out
+ * runs of readable text (UTF-16LE and 8-bit), which is where their body text
+ * is stored. Formatting and ordering of text boxes are lost.
+ */
+export const extractTextFromLegacyOffice = (data: ArrayBuffer): string => {
+  const bytes = new Uint8Array(data);
+  const runs: string[] = [];
+  const isPrintable = (code: number) => code === 9 || code === 10 || code === 13 || (code >= 32 && code < 0xfffe && (code < 127 || code > 159));
+
+  // UTF-16LE runs
+  let current = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    const code = bytes[i] | (bytes[i + 1] << 8);
+    if (isPrintable(code)) current += String.fromCharCode(code);
+    else {
+      if (current.trim().length >= 8) runs.push(current);
+      current = '';
+    }
+  }
+  if (current.trim().length >= 8) runs.push(current);
+
+  // Files saved with 8-bit text have no UTF-16 body; fall back to ASCII runs
+  if (runs.join('').length < 64) {
+    const ascii = new TextDecoder('latin1').decode(bytes).match(/[\x20-\x7e\t\r\n]{8,}/g) || [];
+    runs.push(...ascii);
+  }
+
+  return runs
+    .map(run => run.replace(/\r/g, '\n').replace(/[ \t]+/g, ' ').trim())
+    // Drop font tables, style names and similar noise
+    .filter(run => /[a-z]{3,}\s+[a-z]{2,}/i.test(run))
+    .join('\n');
+};
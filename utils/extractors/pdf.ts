@@ -0,0 +1,225 @@
+import type { PDFDocumentProxy, PDFPageProxy, TextItem } from 'pdfjs-dist/types/src/display/api';
+
+// Items whose baselines differ by less than this share of the font size are on one line
+const SAME_LINE_TOLERANCE = 0.5;
+// A vertical gap larger than this many line heights starts a new paragraph
+const PARAGRAPH_GAP = 1.6;
+// A horizontal gap wider than this many font sizes separates table cells
+const CELL_GAP = 1.5;
+
+interface PositionedItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  size: number;
+}
+
+interface Line {
+  y: number;
+  size: number;
+  items: PositionedItem[];
+}
+
+const isTextItem = (item: unknown): item is TextItem =>
+  typeof (item as TextItem).str === 'string' && Array.isArray((item as TextItem).transform);
+
+/**
+ * Group text items into lines by baseline, top to bottom, and each line's
+ * items left to right.
+ */
+const groupIntoLines = (items: PositionedItem[]): Line[] => {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: Line[] = [];
+
+  sorted.forEach(item => {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - item.y) <= Math.max(line.size, item.size) * SAME_LINE_TOLERANCE) {
+      line.items.push(item);
+      line.size = Math.max(line.size, item.size);
+    } else {
+      lines.push({ y: item.y, size: item.size, items: [item] });
+    }
+  });
+
+  lines.forEach(line => line.items.sort((a, b) => a.x - b.x));
+  return lines;
+};
+
+/**
+ * Split a line into cells wherever the horizontal gap between items is wide.
+ */
+const splitCells = (line: Line): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let end = -Infinity;
+
+  line.items.forEach(item => {
+    const gap = item.x - end;
+    if (current && gap > line.size * CELL_GAP) {
+      cells.push(current.trim());
+      current = '';
+    } else if (current && gap > line.size * 0.15 && !current.endsWith(' ') && !item.str.startsWith(' ')) {
+      current += ' ';
+    }
+    current += item.str;
+    end = item.x + item.width;
+  });
+
+  if (current.trim()) cells.push(current.trim());
+  return cells;
+};
+
+const toMarkdownTable = (rows: string[][]): string => {
+  const escape = (cell: string) => cell.replace(/\|/g, '\\|');
+  const [header, ...body] = rows;
+  return [
+    `| ${header.map(escape).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...body.map(row => `| ${row.map(escape).join(' | ')} |`),
+  ].join('\n');
+};
+
+/**
+ * Rebuild a page's text from item positions: line breaks where baselines
+ * change, blank lines between paragraphs, and runs of at least two lines
+ * with the same number (2+) of widely spaced cells rendered as a table.
+ */
+const layoutPage = (items: PositionedItem[]): string => {
+  const lines = groupIntoLines(items.filter(item => item.str.length > 0));
+  const blocks: string[] = [];
+  let table: string[][] = [];
+  let text: string[] = [];
+
+  const flushTable = () => {
+    if (table.length >= 2) blocks.push(toMarkdownTable(table));
+    else text.push(...table.map(cells => cells.join(' ')));
+    table = [];
+  };
+  const flushText = () => {
+    if (text.length) blocks.push(text.join('\n'));
+    text = [];
+  };
+
+  lines.forEach((line, i) => {
+    const previous = lines[i - 1];
+    if (previous && previous.y - line.y > previous.size * PARAGRAPH_GAP) {
+      flushTable();
+      flushText();
+    }
+
+    const cells = splitCells(line);
+    if (cells.length >= 2) {
+      if (table.length && table[0].length !== cells.length) flushTable();
+      flushText();
+      table.push(cells);
+      return;
+    }
+
+    flushTable();
+    text.push(cells.join(' '));
+  });
+
+  flushTable();
+  flushText();
+  return blocks.join('\n\n');
+};
+
+// PDF dates look like "D:20240131120000+01'00'"; only the day is kept
+const formatPdfDate = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?/);
+  return match ? [match[1], match[2] || '01', match[3] || '01'].join('-') : value;
+};
+
+const getMetadataSection = async (pdf: PDFDocumentProxy): Promise<string> => {
+  const { info } = await pdf.getMetadata().catch(() => ({ info: {} }));
+  const fields = info as Record<string, unknown>;
+  const entries: [string, string | undefined][] = [
+    ['Title', fields.Title as string],
+    ['Author', fields.Author as string],
+    ['Subject', fields.Subject as string],
+    ['Keywords', fields.Keywords as string],
+    ['Created', formatPdfDate(fields.CreationDate)],
+    ['Modified', formatPdfDate(fields.ModDate)],
+    ['Pages', String(pdf.numPages)],
+  ];
+  return entries
+    .filter(([, value]) => value && String(value).trim())
+    .map(([label, value]) => `${label}: ${String(value).trim()}`)
+    .join('\n');
+};
+
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number];
+
+const getOutlinePage = async (pdf: PDFDocumentProxy, dest: OutlineNode['dest']): Promise<number | null> => {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    const ref = explicit?.[0];
+    if (ref === undefined || ref === null) return null;
+    return typeof ref === 'number' ? ref + 1 : (await pdf.getPageIndex(ref)) + 1;
+  } catch {
+    return null;
+  }
+};
+
+const getOutlineSection = async (pdf: PDFDocumentProxy): Promise<string> => {
+  const outline = await pdf.getOutline().catch(() => null);
+  if (!outline?.length) return '';
+
+  const lines: string[] = [];
+  const walk = async (nodes: OutlineNode[], depth: number) => {
+    for (const node of nodes) {
+      const page = await getOutlinePage(pdf, node.dest);
+      lines.push(`${'  '.repeat(depth)}- ${node.title}${page ? ` (p. ${page})` : ''}`);
+      if (node.items?.length) await walk(node.items, depth + 1);
+    }
+  };
+  await walk(outline, 0);
+  return lines.join('\n');
+};
+
+/**
+ * Extract text from a loaded PDF: metadata and outline first, then each page
+ * in reading order with tables as Markdown. Pages without a text layer are
+ * passed to `recognizePage` (OCR) when given. Pages are marked with
+ * `--- Page N ---` for the context budgeter.
+ */
+export const extractTextFromPdfDocument = async (
+  pdf: PDFDocumentProxy,
+  recognizePage?: (page: PDFPageProxy) => Promise<string>
+): Promise<string> => {
+  let fullText = '';
+
+  const metadata = await getMetadataSection(pdf);
+  if (metadata) fullText += `=== Document Info ===\n${metadata}\n`;
+
+  const outline = await getOutlineSection(pdf);
+  if (outline) fullText += `\n=== Outline ===\n${outline}\n`;
+
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    const textContent = await page.getTextContent();
+    const items = textContent.items.filter(isTextItem).map(item => ({
+      str: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      size: Math.hypot(item.transform[2], item.transform[3]) || item.height || 10,
+    }));
+    let pageText = layoutPage(items);
+
+    if (!pageText.trim() && recognizePage) {
+      try {
+        const recognized = await recognizePage(page);
+        if (recognized) pageText = `[Text recognised by OCR]\n${recognized}`;
+      } catch (error) {
+        console.warn(`OCR of page ${pageNum} failed:`, error);
+      }
+    }
+
+    fullText += `\n--- Page ${pageNum} ---\n${pageText}\n`;
+  }
+
+  return fullText.trim();
+};
@@ -0,0 +1,44 @@
+import * as pdfjsLib from 'pdfjs-dist';
+// Ship the worker with the build so it always matches the installed pdfjs-dist
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
+import { recognizeText } from '../../services/ocr';
+import { extractTextFromPdfDocument } from './pdf';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Render scale for OCR of scanned pages; ~150 DPI for a typical page
+const OCR_RENDER_SCALE = 2;
+
+/**
+ * Render a PDF page to a canvas and OCR it; used for scanned pages that
+ * have no text layer.
+ */
+const recognizePdfPage = async (page: pdfjsLib.PDFPageProxy): Promise<string> => {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const context = canvas.getContext('2d');
+  if (!context) return '';
+
+  await page.render({ canvasContext: context, viewport }).promise;
+  return recognizeText(canvas);
+};
+
+/**
+ * PDF text in the browser, with OCR of scanned pages.
+ */
+export const extractTextFromPDF = async (data: ArrayBuffer): Promise<string> => {
+  try {
+    const pdf = await pdfjsLib.getDocument({ data }).promise;
+    // Frees the document in the worker; otherwise every upload keeps its PDFs in memory
+    try {
+      return await extractTextFromPdfDocument(pdf, recognizePdfPage);
+    } finally {
+      await pdf.destroy();
+    }
+  } catch (error) {
+    console.error("Error extracting text from PDF:", error);
+    throw new Error("Failed to extract text from PDF");
+  }
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { ingestFiles } from './fileIngest';
+
+const picked = (path: string, content: BlobPart, type = '') =>
+  ({ file: new File([content], path.split('/').pop()!, { type }), path });
+
+describe('ingestFiles', () => {
+  it('skips an unreadable file in a folder and reports it', async () => {
+    const zip = new JSZip();
+    zip.file('lib/util.py', 'x = 1');
+    const archive = await zip.generateAsync({ type: 'uint8array' });
+
+    const { files, failed } = await ingestFiles(
+      [
+        picked('proj/main.py', 'print(1)'),
+        picked('proj/vendor.zip', archive, 'application/zip'),
+        picked('proj/broken.zip', 'not a zip', 'application/zip'),
+        picked('proj/report.pdf', '%PDF-garbage', 'application/pdf'),
+      ],
+      '',
+      { pdf: () => Promise.reject(new Error('bad xref table')) }
+    );
+
+    expect(files.map(f => f.path).sort()).toEqual(['proj/lib/util.py', 'proj/main.py']);
+    expect(failed).toEqual([
+      { path: 'proj/broken.zip', reason: expect.stringContaining('not a readable ZIP archive') },
+      { path: 'proj/report.pdf', reason: 'bad xref table' },
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import { UploadedFile } from '../types';
+import { FileWithPath } from './folderUpload';
+import { expandZip, isZipFile } from './extractors/archive';
+import { createIgnoreMatcher, scopeIgnorePatterns } from './fileTree';
+import { FileContentReaders, generateId, getFileCategory, readFileContent } from './fileUtils';
+import { getErrorMessage } from '../services/errors';
+
+/**
+ * A picked file that couldn't be read, e.g. a damaged archive or PDF.
+ */
+export interface IngestFailure {
+  path: string;
+  reason: string;
+}
+
+export interface IngestResult {
+  files: UploadedFile[];
+  /** Files left out; the rest of the upload still goes through. */
+  failed: IngestFailure[];
+}
+
+// Helper to run `read` on every entry, keeping the ones that work and noting the others
+const readEach = async <T, R>(entries: T[], getPath: (entry: T) => string, read: (entry: T) => Promise<R>) => {
+  const settled = await Promise.allSettled(entries.map(read));
+  const failed: IngestFailure[] = [];
+  const values: R[] = [];
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') values.push(outcome.value);
+    else failed.push({ path: getPath(entries[i]), reason: getErrorMessage(outcome.reason) });
+  });
+  return { values, failed };
+};
+
+/**
+ * Turns picked files into uploads: skips ignored paths, including those of
+ * .gitignore files that came along, expands ZIP archives and reads each
+ * file's content. Files that can't be read are reported instead of failing
+ * the whole upload. Shared by the upload box and the CLI.
+ */
+export const ingestFiles = async (
+  picked: FileWithPath[],
+  ignorePatterns: string,
+  readers: FileContentReaders = {}
+): Promise<IngestResult> => {
+  const isIgnored = createIgnoreMatcher(ignorePatterns);
+
+  // Archives are replaced by their members so a whole project can be dropped in
+  const archives = await readEach(
+    picked.filter(({ path }) => !isIgnored(path)),
+    entry => entry.path,
+    async entry => isZipFile(entry.file) ? expandZip(entry.file, entry.path, isIgnored) : [entry]
+  );
+  const expanded = archives.values.flat();
+
+  // Honour .gitignore files that came with the upload, scoped to their folder
+  const gitignores = await Promise.all(
+    expanded
+      .filter(({ path }) => path.split('/').pop() === '.gitignore')
+      .map(async ({ file, path }) => scopeIgnorePatterns(await file.text(), path.split('/').slice(0, -1).join('/')))
+  );
+  const isIgnoredByRepo = createIgnoreMatcher([ignorePatterns, ...gitignores].join('\n'));
+  const accepted = expanded.filter(({ path }) => !isIgnoredByRepo(path));
+
+  const read = await readEach(accepted, entry => entry.path, async ({ file, path }): Promise<UploadedFile> => {
+    const content = await readFileContent(file, readers);
+    return {
+      id: generateId(),
+      name: file.name,
+      path: path !== file.name ? path : undefined,
+      size: file.size,
+      content: content,
+      category: getFileCategory(file.name, file.type),
+    };
+  });
+
+  return { files: read.values, failed: [...archives.failed, ...read.failed] };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { UploadedFile } from '../types';
+import { createIgnoreMatcher, DEFAULT_IGNORE_PATTERNS, formatFileTree, scopeIgnorePatterns } from './fileTree';
+
+// Helper to list which of `paths` the patterns ignore
+const ignored = (patterns: string, paths: string[]) => paths.filter(createIgnoreMatcher(patterns));
+
+describe('createIgnoreMatcher', () => {
+  it('matches names at any depth unless the pattern has a slash', () => {
+    expect(ignored('*.log\n/TODO\ndocs/*.md', ['a.log', 'src/deep/b.log', 'TODO', 'src/TODO', 'docs/x.md', 'src/docs/x.md']))
+      .toEqual(['a.log', 'src/deep/b.log', 'TODO', 'docs/x.md']);
+  });
+
+  it('only matches folders with a trailing slash', () => {
+    expect(ignored('build/', ['build/out.js', 'src/build/out.js', 'build', 'src/build.py']))
+      .toEqual(['build/out.js', 'src/build/out.js']);
+  });
+
+  it('supports ** and ?', () => {
+    expect(ignored('src/**/*.test.ts\nlogs/**\nfile?.txt', [
+      'src/a.test.ts', 'src/x/y/b.test.ts', 'lib/c.test.ts', 'logs/a/b.txt', 'file1.txt', 'file10.txt',
+    ])).toEqual(['src/a.test.ts', 'src/x/y/b.test.ts', 'logs/a/b.txt', 'file1.txt']);
+  });
+
+  it('lets the last matching pattern win, so ! re-includes a file', () => {
+    expect(ignored('*.json\n!package.json\n# a comment\n', ['tsconfig.json', 'package.json'])).toEqual(['tsconfig.json']);
+  });
+
+  it('cannot re-include a file inside an ignored folder', () => {
+    expect(ignored('secret/\n!secret/keep.txt', ['secret/keep.txt'])).toEqual(['secret/keep.txt']);
+  });
+
+  it('treats a path with a trailing slash as a folder', () => {
+    const isIgnored = createIgnoreMatcher('cache/');
+
+    expect(isIgnored('cache/')).toBe(true);
+    expect(isIgnored('cache')).toBe(false);
+  });
+
+  it('skips dependencies and build output by default', () => {
+    expect(ignored(DEFAULT_IGNORE_PATTERNS, [
+      'node_modules/react/index.js', 'app/.git/HEAD', 'dist/index.js', 'yarn.lock', 'vendor/x.min.js', 'src/index.ts',
+    ])).toEqual(['node_modules/react/index.js', 'app/.git/HEAD', 'dist/index.js', 'yarn.lock', 'vendor/x.min.js']);
+  });
+});
+
+describe('scopeIgnorePatterns', () => {
+  it('applies a nested .gitignore to its own folder only', () => {
+    const patterns = scopeIgnorePatterns('*.tmp\n/out\nlib/gen/\n!keep.tmp\n\n# note', 'pkg');
+
+    expect(patterns).toBe('pkg/**/*.tmp\npkg/out\npkg/lib/gen/\n!pkg/**/keep.tmp\n\n# note');
+    expect(ignored(patterns, ['pkg/a.tmp', 'pkg/x/b.tmp', 'c.tmp', 'pkg/out', 'pkg/x/out', 'pkg/lib/gen/a.js', 'pkg/keep.tmp']))
+      .toEqual(['pkg/a.tmp', 'pkg/x/b.tmp', 'pkg/out', 'pkg/lib/gen/a.js']);
+  });
+
+  it('leaves root patterns alone', () => {
+    expect(scopeIgnorePatterns('*.tmp', '')).toBe('*.tmp');
+  });
+});
+
+describe('formatFileTree', () => {
+  it('lists folders before files, indented like tree', () => {
+    const file = (path: string): UploadedFile =>
+      ({ id: path, name: path.split('/').pop()!, path, size: 1, content: '', category: 'code' });
+
+    expect(formatFileTree([file('README.md'), file('src/util/a.ts'), file('src/main.ts')]))
+      .toBe('src/\n  util/\n    a.ts\n  main.ts\nREADME.md');
+  });
+});
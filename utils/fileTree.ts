@@ -0,0 +1,160 @@
+import { UploadedFile } from '../types';
+
+/**
+ * Path of a file relative to the uploaded folder/archive; plain uploads
+ * only have a name.
+ */
+export const getFilePath = (file: UploadedFile): string => file.path || file.name;
+
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  children: FileTreeNode[];
+  /** Set on leaves. */
+  file?: UploadedFile;
+}
+
+/**
+ * Nest files by their path segments; folders sort before files, then by name.
+ */
+export const buildFileTree = (files: UploadedFile[]): FileTreeNode => {
+  const root: FileTreeNode = { name: '', path: '', children: [] };
+
+  files.forEach(file => {
+    const segments = getFilePath(file).split('/').filter(Boolean);
+    let node = root;
+    segments.forEach((segment, i) => {
+      const path = segments.slice(0, i + 1).join('/');
+      if (i === segments.length - 1) {
+        node.children.push({ name: segment, path, children: [], file });
+        return;
+      }
+      let folder = node.children.find(child => !child.file && child.name === segment);
+      if (!folder) {
+        folder = { name: segment, path, children: [] };
+        node.children.push(folder);
+      }
+      node = folder;
+    });
+  });
+
+  const sort = (node: FileTreeNode) => {
+    node.children.sort((a, b) => Number(!!a.file) - Number(!!b.file) || a.name.localeCompare(b.name));
+    node.children.forEach(sort);
+  };
+  sort(root);
+  return root;
+};
+
+export const hasFolders = (files: UploadedFile[]): boolean =>
+  files.some(file => getFilePath(file).includes('/'));
+
+/**
+ * Indented listing of the uploaded files, like `tree`, for prompts.
+ */
+export const formatFileTree = (files: UploadedFile[]): string => {
+  const lines: string[] = [];
+  const walk = (node: FileTreeNode, depth: number) => {
+    node.children.forEach(child => {
+      lines.push(`${'  '.repeat(depth)}${child.name}${child.file ? '' : '/'}`);
+      walk(child, depth + 1);
+    });
+  };
+  walk(buildFileTree(files), 0);
+  return lines.join('\n');
+};
+
+export const DEFAULT_IGNORE_PATTERNS = [
+  '.git/',
+  'node_modules/',
+  '__pycache__/',
+  '.venv/',
+  'venv/',
+  'dist/',
+  'build/',
+  '.next/',
+  '__MACOSX/',
+  '.DS_Store',
+  'Thumbs.db',
+  '*.lock',
+  'package-lock.json',
+  '*.min.js',
+  '*.map',
+].join('\n');
+
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+const globToRegex = (glob: string): string =>
+  glob
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\/|\/\*\*|\*\*|\*|\?/g, token => {
+      switch (token) {
+        case '**/': return '(?:.*/)?';
+        case '/**': return '(?:/.*)?';
+        case '**': return '.*';
+        case '*': return '[^/]*';
+        default: return '[^/]';
+      }
+    });
+
+const compileRule = (line: string): IgnoreRule | null => {
+  let pattern = line.trim();
+  if (!pattern || pattern.startsWith('#')) return null;
+
+  const negate = pattern.startsWith('!');
+  if (negate) pattern = pattern.slice(1);
+  const dirOnly = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '');
+  // A slash anywhere but the end anchors the pattern to the root
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  if (!pattern) return null;
+
+  const body = globToRegex(pattern);
+  return { regex: new RegExp(anchored ? `^${body}$` : `(?:^|/)${body}$`), negate, dirOnly };
+};
+
+/**
+ * Rewrite the patterns of a `.gitignore` found in `folder` so they apply to
+ * paths relative to the upload root.
+ */
+export const scopeIgnorePatterns = (patterns: string, folder: string): string => {
+  if (!folder) return patterns;
+  return patterns.split(/\r?\n/).map(line => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return trimmed;
+    const negate = trimmed.startsWith('!') ? '!' : '';
+    const pattern = negate ? trimmed.slice(1) : trimmed;
+    const anchored = pattern.replace(/\/+$/, '').includes('/');
+    return `${negate}${folder}/${anchored ? pattern.replace(/^\//, '') : `**/${pattern}`}`;
+  }).join('\n');
+};
+
+/**
+ * Build a matcher for `.gitignore`-style patterns: `*`, `**`, `?`, trailing
+ * `/` for folders, leading `/` to anchor, and `!` to re-include. The last
+ * matching pattern wins, and nothing inside an ignored folder can be
+ * re-included, as in git. Folder paths are passed with a trailing `/`.
+ */
+export const createIgnoreMatcher = (patterns: string): ((path: string) => boolean) => {
+  const rules = patterns.split(/\r?\n/).map(compileRule).filter((rule): rule is IgnoreRule => !!rule);
+
+  return (path: string) => {
+    const segments = path.split('/').filter(Boolean);
+    let ignored = false;
+    for (let i = 1; i <= segments.length; i++) {
+      const candidate = segments.slice(0, i).join('/');
+      const isDir = i < segments.length || path.endsWith('/');
+      rules.forEach(rule => {
+        if (rule.dirOnly && !isDir) return;
+        if (rule.regex.test(candidate)) ignored = !rule.negate;
+      });
+      if (ignored && isDir) return true;
+    }
+    return ignored;
+  };
+};
@@ -1,18 +1,36 @@
 import { UploadedFile } from '../types';
 import mammoth from 'mammoth';
-import { Document, Packer, Paragraph, TextRun, HeadingLevel } from 'docx';
-import * as pdfjsLib from 'pdfjs-dist';
-
-// Configure PDF.js worker
-// Configure PDF.js worker - Use a specific known version
-pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+import JSZip from 'jszip';
+import {
+  extractTextFromPptx,
+  extractTextFromXlsx,
+  extractTextFromCsv,
+  extractTextFromLegacyOffice,
+} from './extractors/office';
+import { extractTextFromNotebook } from './extractors/notebook';
+import { extractionFailed } from './extractors/failure';
 
 export const generateId = (): string => Math.random().toString(36).substring(2, 9);
 
+// Types the readers below look at, for files that don't come with one (archive members, files on disk)
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  csv: 'text/csv',
+  txt: 'text/plain',
+};
+
+export const getMimeType = (filename: string): string =>
+  MIME_TYPES[filename.split('.').pop()?.toLowerCase() || ''] || '';
+
 export const getFileCategory = (filename: string, type: string): UploadedFile['category'] => {
   const ext = filename.split('.').pop()?.toLowerCase();
   
-  if (['py', 'js', 'ts', 'tsx', 'c', 'cpp', 'h', 'java', 'go', 'rs', 'html', 'css', 'json', 'md'].includes(ext || '')) {
+  if (['py', 'js', 'ts', 'tsx', 'c', 'cpp', 'h', 'java', 'go', 'rs', 'html', 'css', 'json', 'md', 'ipynb'].includes(ext || '')) {
     return 'code';
   }
   if (type === 'application/pdf' || ext === 'pdf') {
@@ -21,91 +39,70 @@ export const getFileCategory = (filename: string, type: string): UploadedFile['c
   if (type.startsWith('image/')) {
     return 'image';
   }
-  if (['doc', 'docx', 'ppt', 'pptx', 'txt'].includes(ext || '') || type.includes('text') || type.includes('document')) {
+  if (['doc', 'docx', 'ppt', 'pptx', 'xls', 'xlsx', 'csv', 'tsv', 'txt'].includes(ext || '') || type.includes('text') || type.includes('document')) {
     return 'document';
   }
   return 'unknown';
 };
 
 /**
- * Extract text from PDF using PDF.js
+ * Readers for formats that need a platform-specific library.
  */
-const extractTextFromPDF = async (file: File): Promise<string> => {
-  try {
-    const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-    
-    let fullText = '';
-    
-    // Extract text from each page
-    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-      const page = await pdf.getPage(pageNum);
-      const textContent = await page.getTextContent();
-      const pageText = textContent.items
-        .map((item: any) => item.str)
-        .join(' ');
-      
-      fullText += `\n--- Page ${pageNum} ---\n${pageText}\n`;
-    }
-    
-    return fullText.trim();
-  } catch (error) {
-    console.error("Error extracting text from PDF:", error);
-    throw new Error("Failed to extract text from PDF");
+export interface FileContentReaders {
+  /** Text of a PDF; without it PDFs can't be read. */
+  pdf?: (data: ArrayBuffer) => Promise<string>;
+}
+
+// Helper to encode bytes as a data URL without FileReader, which Node lacks
+const toDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  // In chunks: spreading a large image into one call overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
   }
+  return `data:${mimeType || 'application/octet-stream'};base64,${btoa(binary)}`;
 };
 
-export const readFileContent = (file: File): Promise<string | ArrayBuffer | null> => {
-  return new Promise(async (resolve, reject) => {
+/**
+ * Text of a file for the model; images become data URLs. Uses only Blob
+ * methods, so it works on browser File objects and on Node's File as well.
+ */
+export const readFileContent = async (file: File, readers: FileContentReaders = {}): Promise<string | ArrayBuffer | null> => {
+  const ext = file.name.split('.').pop()?.toLowerCase() || '';
+
+  // 1. Handle DOCX specifically to extract text
+  if (ext === 'docx') {
+    const arrayBuffer = await file.arrayBuffer();
     try {
-      // 1. Handle DOCX specifically to extract text
-      if (file.name.toLowerCase().endsWith('.docx')) {
-        const reader = new FileReader();
-        reader.onload = async () => {
-          try {
-            const arrayBuffer = reader.result as ArrayBuffer;
-            // Extract raw text from the DOCX file
-            const result = await mammoth.extractRawText({ arrayBuffer });
-            resolve(result.value); // The raw text string
-          } catch (error) {
-            console.error("Error parsing DOCX:", error);
-            reject(error);
-          }
-        };
-        reader.onerror = () => reject(reader.error);
-        reader.readAsArrayBuffer(file);
-        return;
-      }
+      // mammoth's browser build reads `arrayBuffer`, its Node build `buffer`
+      const result = await mammoth.extractRawText({ arrayBuffer, buffer: arrayBuffer } as { arrayBuffer: ArrayBuffer });
+      return result.value; // The raw text string
+    } catch (error) {
+      console.error("Error parsing DOCX:", error);
+      return extractionFailed(error);
+    }
+  }
 
-      // 2. Handle PDF - Extract text content
-      if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
-        try {
-          const extractedText = await extractTextFromPDF(file);
-          resolve(extractedText);
-        } catch (error) {
-          reject(error);
-        }
-        return;
-      }
+  // 2. Handle PDF - Extract text content
+  if (file.type === 'application/pdf' || ext === 'pdf') {
+    if (!readers.pdf) throw new Error("PDF files are not supported here");
+    return readers.pdf(await file.arrayBuffer());
+  }
 
-      // 3. Handle Images - Read as Data URL (Base64)
-      if (file.type.startsWith('image/')) {
-        const reader = new FileReader();
-        reader.onload = () => resolve(reader.result);
-        reader.onerror = () => reject(reader.error);
-        reader.readAsDataURL(file);
-        return;
-      }
+  // 3. Handle Office formats and notebooks with dedicated extractors
+  if (ext === 'pptx') return extractTextFromPptx(await file.arrayBuffer());
+  if (ext === 'xlsx' || ext === 'xlsm') return extractTextFromXlsx(await file.arrayBuffer());
+  if (ext === 'doc' || ext === 'ppt' || ext === 'xls') return extractTextFromLegacyOffice(await file.arrayBuffer());
+  if (ext === 'csv' || ext === 'tsv') return extractTextFromCsv(await file.text(), file.name);
+  if (ext === 'ipynb') return extractTextFromNotebook(await file.text());
 
-      // 4. Handle Code/Text - Read as Text
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result);
-      reader.onerror = () => reject(reader.error);
-      reader.readAsText(file);
-    } catch (error) {
-      reject(error);
-    }
-  });
+  // 4. Handle Images - Read as Data URL (Base64)
+  if (file.type.startsWith('image/')) {
+    return toDataUrl(new Uint8Array(await file.arrayBuffer()), file.type);
+  }
+
+  // 5. Handle Code/Text - Read as Text
+  return file.text();
 };
 
 export const formatFileSize = (bytes: number): string => {
@@ -117,59 +114,10 @@ export const formatFileSize = (bytes: number): string => {
 };
 
 /**
- * Downloads a string content as a file with the given filename and mimetype.
+ * Packs files into a ZIP, keeping their folder structure.
  */
-export const downloadFile = (filename: string, content: string | Blob, mimeType: string) => {
-  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+export const createZipBlob = async (entries: { path: string; content: string }[]): Promise<Blob> => {
+  const zip = new JSZip();
+  entries.forEach(({ path, content }) => zip.file(path, content));
+  return zip.generateAsync({ type: 'blob' });
 };
-
-/**
- * Converts Markdown-like text to a simple DOCX Blob.
- */
-export const createDocxBlob = async (text: string): Promise<Blob> => {
-  const lines = text.split('\n');
-  const children = lines.map(line => {
-    // Basic Markdown Header parsing
-    if (line.startsWith('# ')) {
-        return new Paragraph({
-            text: line.replace('# ', ''),
-            heading: HeadingLevel.HEADING_1,
-            spacing: { before: 200, after: 100 },
-        });
-    }
-    if (line.startsWith('## ')) {
-        return new Paragraph({
-            text: line.replace('## ', ''),
-            heading: HeadingLevel.HEADING_2,
-            spacing: { before: 150, after: 100 },
-        });
-    }
-    if (line.startsWith('### ')) {
-        return new Paragraph({
-            text: line.replace('### ', ''),
-            heading: HeadingLevel.HEADING_3,
-            spacing: { before: 100, after: 50 },
-        });
-    }
-    
-    // Regular paragraph
-    return new Paragraph({
-        children: [new TextRun(line)],
-        spacing: { after: 100 },
-    });
-  });
-
-  const doc = new Document({
-    sections: [{ children }],
-  });
-
-  return await Packer.toBlob(doc);
-};
\ No newline at end of file
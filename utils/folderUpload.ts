@@ -0,0 +1,61 @@
+/**
+ * A picked or dropped file with its path relative to what the user selected.
+ */
+export interface FileWithPath {
+  file: File;
+  path: string;
+}
+
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries returns at most ~100 entries per call; keep reading until empty
+const readAllEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const walkEntry = async (entry: FileSystemEntry, shouldSkip: (path: string) => boolean): Promise<FileWithPath[]> => {
+  // fullPath starts with "/" and is relative to the drop
+  const path = entry.fullPath.replace(/^\//, '');
+
+  if (entry.isFile) {
+    return shouldSkip(path) ? [] : [{ file: await readEntryFile(entry as FileSystemFileEntry), path }];
+  }
+  if (shouldSkip(`${path}/`)) return [];
+  const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+  const nested = await Promise.all(children.map(child => walkEntry(child, shouldSkip)));
+  return nested.flat();
+};
+
+/**
+ * Files from a drop, descending into dropped folders. `shouldSkip` is asked
+ * about folders too, so ignored trees like node_modules are never read.
+ */
+export const getDroppedFiles = async (
+  dataTransfer: DataTransfer,
+  shouldSkip: (path: string) => boolean = () => false
+): Promise<FileWithPath[]> => {
+  // Entries must be grabbed synchronously, before the first await
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.kind === 'file' ? item.webkitGetAsEntry() : null)
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map(file => ({ file, path: file.name }));
+  }
+  const nested = await Promise.all(entries.map(entry => walkEntry(entry, shouldSkip)));
+  return nested.flat();
+};
+
+/**
+ * Files from an `<input type="file">`; folder pickers (`webkitdirectory`)
+ * fill in `webkitRelativePath`.
+ */
+export const getPickedFiles = (fileList: FileList): FileWithPath[] =>
+  Array.from(fileList).map(file => ({ file, path: file.webkitRelativePath || file.name }));
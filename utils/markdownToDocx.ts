@@ -0,0 +1,280 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Bookmark,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  InternalHyperlink,
+  LevelFormat,
+  Packer,
+  PageBreak,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import type { BlockContent, DefinitionContent, List, PhrasingContent, Root, RootContent, Table as MdTable } from 'mdast';
+
+export interface DocxSection {
+  title: string;
+  markdown: string;
+}
+
+export interface DocxOptions {
+  /** Title page heading; no title page when omitted. */
+  title?: string;
+  subtitle?: string;
+}
+
+const MONOSPACE = 'Courier New';
+const CODE_SHADING = { type: ShadingType.CLEAR, fill: 'F2F2F2', color: 'auto' };
+const ORDERED_LIST = 'ordered-list';
+
+const HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+interface InlineStyle {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: boolean;
+}
+
+type DocxBlock = Paragraph | Table;
+
+const parseMarkdown = (markdown: string): Root =>
+  unified().use(remarkParse).use(remarkGfm).parse(markdown) as Root;
+
+const textRun = (text: string, style: InlineStyle): TextRun =>
+  new TextRun({
+    text,
+    bold: style.bold,
+    italics: style.italics,
+    strike: style.strike,
+    font: style.code ? MONOSPACE : undefined,
+    shading: style.code ? CODE_SHADING : undefined,
+    color: style.link ? '0563C1' : undefined,
+    underline: style.link ? {} : undefined,
+  });
+
+const renderInline = (nodes: PhrasingContent[], style: InlineStyle = {}): ParagraphChild[] =>
+  nodes.flatMap((node): ParagraphChild[] => {
+    switch (node.type) {
+      case 'text':
+        return [textRun(node.value, style)];
+      case 'strong':
+        return renderInline(node.children, { ...style, bold: true });
+      case 'emphasis':
+        return renderInline(node.children, { ...style, italics: true });
+      case 'delete':
+        return renderInline(node.children, { ...style, strike: true });
+      case 'inlineCode':
+        return [textRun(node.value, { ...style, code: true })];
+      case 'break':
+        return [new TextRun({ text: '', break: 1 })];
+      case 'link':
+        return [new ExternalHyperlink({ link: node.url, children: renderInline(node.children, { ...style, link: true }) })];
+      case 'image':
+        return [textRun(`[Image: ${node.alt || node.url}]`, { ...style, italics: true })];
+      case 'html':
+        return [textRun(node.value, style)];
+      default:
+        return 'children' in node ? renderInline(node.children as PhrasingContent[], style) : [];
+    }
+  });
+
+const renderList = (list: List, level: number, instance: { next: number }): DocxBlock[] => {
+  // Each ordered list restarts its numbering
+  const listInstance = instance.next++;
+  return list.children.flatMap(item =>
+    item.children.flatMap((child, i): DocxBlock[] => {
+      if (child.type === 'list') return renderList(child, level + 1, instance);
+      if (child.type === 'paragraph' && i === 0) {
+        const checkbox = item.checked === true ? '☑ ' : item.checked === false ? '☐ ' : '';
+        return [new Paragraph({
+          children: [...(checkbox ? [new TextRun(checkbox)] : []), ...renderInline(child.children)],
+          ...(list.ordered
+            ? { numbering: { reference: ORDERED_LIST, level: Math.min(level, 8), instance: listInstance } }
+            : { bullet: { level: Math.min(level, 8) } }),
+          spacing: { after: 60 },
+        })];
+      }
+      // Continuation paragraphs of an item are indented under it
+      return renderBlocks([child], { headingOffset: 0, instance, indent: (level + 1) * 360 });
+    })
+  );
+};
+
+const renderTable = (table: MdTable): Table => {
+  const alignments = table.align || [];
+  const columnCount = Math.max(...table.children.map(row => row.children.length));
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: table.children.map((row, rowIndex) => new TableRow({
+      tableHeader: rowIndex === 0,
+      children: Array.from({ length: columnCount }, (_, i) => {
+        const cell = row.children[i];
+        const align = alignments[i];
+        return new TableCell({
+          shading: rowIndex === 0 ? { type: ShadingType.CLEAR, fill: 'D9E2F3', color: 'auto' } : undefined,
+          children: [new Paragraph({
+            alignment: align === 'center' ? AlignmentType.CENTER : align === 'right' ? AlignmentType.RIGHT : AlignmentType.LEFT,
+            children: cell ? renderInline(cell.children, { bold: rowIndex === 0 }) : [],
+          })],
+        });
+      }),
+    })),
+  });
+};
+
+interface RenderContext {
+  /** Shift for Markdown headings nested under a section heading. */
+  headingOffset: number;
+  instance: { next: number };
+  indent?: number;
+}
+
+const renderBlocks = (nodes: (RootContent | BlockContent | DefinitionContent)[], context: RenderContext): DocxBlock[] =>
+  nodes.flatMap((node): DocxBlock[] => {
+    const indent = context.indent ? { left: context.indent } : undefined;
+    switch (node.type) {
+      case 'heading':
+        return [new Paragraph({
+          heading: HEADINGS[Math.min(node.depth - 1 + context.headingOffset, HEADINGS.length - 1)],
+          children: renderInline(node.children),
+          spacing: { before: 200, after: 100 },
+        })];
+      case 'paragraph':
+        return [new Paragraph({ children: renderInline(node.children), spacing: { after: 120 }, indent })];
+      case 'list':
+        return renderList(node, 0, context.instance);
+      case 'table':
+        return [renderTable(node), new Paragraph({ text: '' })];
+      case 'code':
+        return node.value.split('\n').map((line, i, lines) => new Paragraph({
+          children: [new TextRun({ text: line || ' ', font: MONOSPACE, size: 18 })],
+          shading: CODE_SHADING,
+          spacing: { before: i === 0 ? 120 : 0, after: i === lines.length - 1 ? 120 : 0 },
+          indent,
+        }));
+      case 'blockquote':
+        return renderQuote(node.children, context);
+      case 'thematicBreak':
+        return [new Paragraph({
+          text: '',
+          border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'BFBFBF', space: 1 } },
+          spacing: { after: 120 },
+        })];
+      case 'html':
+        return [new Paragraph({ children: [new TextRun({ text: node.value, font: MONOSPACE })], indent })];
+      default:
+        return [];
+    }
+  });
+
+/**
+ * Block quotes: indented, italic paragraphs with a bar on the left.
+ */
+const renderQuote = (nodes: (BlockContent | DefinitionContent)[], context: RenderContext): DocxBlock[] =>
+  nodes.flatMap((node): DocxBlock[] => {
+    if (node.type !== 'paragraph') return renderBlocks([node], { ...context, indent: (context.indent || 0) + 567 });
+    return [new Paragraph({
+      children: renderInline(node.children, { italics: true }),
+      indent: { left: (context.indent || 0) + 567 },
+      border: { left: { style: BorderStyle.SINGLE, size: 18, color: 'BFBFBF', space: 8 } },
+      spacing: { after: 120 },
+    })];
+  });
+
+const sectionAnchor = (index: number) => `section_${index + 1}`;
+
+const buildTitlePage = (options: DocxOptions): Paragraph[] => [
+  new Paragraph({ text: '', spacing: { before: 2400 } }),
+  new Paragraph({ text: options.title, heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER }),
+  ...(options.subtitle
+    ? [new Paragraph({ alignment: AlignmentType.CENTER, spacing: { before: 240 }, children: [new TextRun({ text: options.subtitle, italics: true, size: 26 })] })]
+    : []),
+  new Paragraph({
+    alignment: AlignmentType.CENTER,
+    spacing: { before: 480 },
+    children: [new TextRun({ text: new Date().toLocaleDateString(undefined, { dateStyle: 'long' }), color: '7F7F7F' }), new PageBreak()],
+  }),
+];
+
+const buildTableOfContents = (sections: DocxSection[]): Paragraph[] => [
+  new Paragraph({ text: 'Contents', heading: HeadingLevel.HEADING_1, spacing: { after: 200 } }),
+  ...sections.map((section, i) => new Paragraph({
+    spacing: { after: 80 },
+    children: [new InternalHyperlink({
+      anchor: sectionAnchor(i),
+      children: [textRun(`${i + 1}. ${section.title}`, { link: true })],
+    })],
+  })),
+  new Paragraph({ children: [new PageBreak()] }),
+];
+
+const buildDocument = (children: DocxBlock[]): Document =>
+  new Document({
+    numbering: {
+      config: [{
+        reference: ORDERED_LIST,
+        levels: Array.from({ length: 9 }, (_, level) => ({
+          level,
+          format: [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN][level % 3],
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+        })),
+      }],
+    },
+    sections: [{ children }],
+  });
+
+/**
+ * Converts a Markdown report to DOCX: inline formatting, lists, tables, code
+ * blocks, quotes and links, with an optional title page.
+ */
+export const createDocxBlob = async (markdown: string, options: DocxOptions = {}): Promise<Blob> => {
+  const instance = { next: 0 };
+  const body = renderBlocks(parseMarkdown(markdown).children, { headingOffset: 0, instance });
+  return Packer.toBlob(buildDocument([...(options.title ? buildTitlePage(options) : []), ...body]));
+};
+
+/**
+ * Several Markdown sections (e.g. the results of a run's steps) in one
+ * document, with a title page and a table of contents linking to each.
+ */
+export const createReportDocxBlob = async (sections: DocxSection[], options: DocxOptions = {}): Promise<Blob> => {
+  const instance = { next: 0 };
+  const body = sections.flatMap((section, i) => [
+    new Paragraph({
+      heading: HeadingLevel.HEADING_1,
+      pageBreakBefore: i > 0,
+      children: [new Bookmark({ id: sectionAnchor(i), children: [new TextRun(`${i + 1}. ${section.title}`)] })],
+    }),
+    // Section headings are H1, so the section's own headings move down a level
+    ...renderBlocks(parseMarkdown(section.markdown).children, { headingOffset: 1, instance }),
+  ]);
+
+  return Packer.toBlob(buildDocument([
+    ...(options.title ? buildTitlePage(options) : []),
+    ...(sections.length > 1 ? buildTableOfContents(sections) : []),
+    ...body,
+  ]));
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { StepStatus, WorkflowRun } from '../types';
+import { createRunBundle, createRunMarkdown, parseRunBundle, RunImportError } from './runExport';
+
+const usage = (promptTokens: number, completionTokens: number) =>
+  ({ model: 'gpt-4o-mini', promptTokens, completionTokens, calls: 1, durationMs: 100 });
+
+const run: WorkflowRun = {
+  id: 'r1',
+  name: 'Parser review',
+  createdAt: 1,
+  updatedAt: 2,
+  goal: 'Find the bugs',
+  files: [{ id: 'f1', name: 'parser.py', path: 'src/parser.py', size: 12, content: 'print("hi")', category: 'code' }],
+  steps: [
+    { id: 's1', description: 'Read | the parser', status: StepStatus.COMPLETED, result: 'Two bugs.', dependsOn: [], usage: usage(100, 50) },
+    { id: 's2', description: 'Fix them', status: StepStatus.FAILED, error: 'Token budget reached', dependsOn: ['s1'] },
+  ],
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  chat: [
+    { id: 'q', role: 'user', content: 'Why?', createdAt: 3 },
+    { id: 'a', role: 'assistant', content: 'Because.', createdAt: 4, usage: usage(30, 20) },
+  ],
+  planUsage: usage(10, 5),
+  followUpUsage: usage(1, 1),
+  budget: { maxTokens: 1000 },
+};
+
+// Helper to export a run with the bundle's fields replaced
+const bundleWith = (data: Record<string, unknown>) =>
+  JSON.stringify({ ...JSON.parse(createRunBundle(run)), ...data });
+
+describe('parseRunBundle', () => {
+  it('reads back an exported run, usage and chat included', () => {
+    expect(parseRunBundle(createRunBundle(run))).toEqual(run);
+  });
+
+  it('fills in what older bundles leave out', () => {
+    const parsed = parseRunBundle(bundleWith({ run: { goal: '', files: [], steps: [] } }));
+
+    expect(parsed).toMatchObject({ id: '', name: 'Imported run', provider: 'unknown', model: 'unknown', planUsage: undefined });
+  });
+
+  it.each([
+    ['{', 'The file is not valid JSON.'],
+    [JSON.stringify({ format: 'other' }), 'The file is not an exported workflow run.'],
+    [bundleWith({ version: 2 }), 'Unsupported bundle version 2.'],
+    [bundleWith({ run: null }), 'The bundle has no run.'],
+    [bundleWith({ run: { ...run, goal: undefined } }), 'The run has no goal.'],
+    [bundleWith({ run: { ...run, steps: undefined } }), 'The run is missing its files or steps.'],
+    [bundleWith({ run: { ...run, files: [{ id: 'f', name: 'a.txt' }] } }), 'File 1 is malformed.'],
+    [bundleWith({ run: { ...run, steps: [run.steps[0], { ...run.steps[1], status: 'DONE' }] } }), 'Step 2 is malformed.'],
+    [bundleWith({ run: { ...run, chat: {} } }), 'The follow-up chat is malformed.'],
+    [bundleWith({ run: { ...run, chat: [{ id: 'q', role: 'system', content: '' }] } }), 'Chat message 1 is malformed.'],
+  ])('rejects %s', (text, message) => {
+    expect(() => parseRunBundle(text)).toThrow(new RunImportError(message));
+  });
+});
+
+describe('createRunMarkdown', () => {
+  it('lists the plan, results and totals of the whole run', () => {
+    const markdown = createRunMarkdown(run, { prices: { 'gpt-4o-mini': { input: 1, output: 2 } } });
+
+    expect(markdown).toContain('# Parser review');
+    expect(markdown).toContain('- **Steps completed:** 1/2');
+    // Planning, the step and both follow-up usages: 15 + 150 + 50 + 2 tokens
+    expect(markdown).toContain('- **Tokens:** 217 (141 in, 76 out, 4 calls)');
+    expect(markdown).toContain('| src/parser.py | code | 12 B |');
+    expect(markdown).toContain('| 1 | Read \\| the parser | COMPLETED | - |');
+    expect(markdown).toContain('| 2 | Fix them | FAILED | 1 |');
+    expect(markdown).toContain('**Error:** Token budget reached');
+  });
+});
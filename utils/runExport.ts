@@ -0,0 +1,263 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkRehype from 'remark-rehype';
+import rehypeStringify from 'rehype-stringify';
+import { FollowUpMessage, GenerationSettings, ModelUsage, PriceTable, RunBudget, StepStatus, UploadedFile, WorkflowRun, WorkflowStep } from '../types';
+import { getFilePath } from './fileTree';
+import { formatCost, getRunUsages, summarizeUsage } from '../services/usage';
+
+export type RunExportFormat = 'markdown' | 'html' | 'pdf' | 'json';
+
+export interface RunExportOptions {
+  includeThinking?: boolean;
+  /** Adds costs to the usage summary. */
+  prices?: PriceTable;
+}
+
+/**
+ * A run as written to disk, so it can be imported into another browser.
+ */
+export interface RunBundle {
+  format: typeof RUN_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  run: WorkflowRun;
+}
+
+export const RUN_BUNDLE_FORMAT = 'gemini-agent-workflow-run';
+const RUN_BUNDLE_VERSION = 1;
+
+export class RunImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RunImportError';
+  }
+}
+
+const formatDate = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'medium' }) : '-';
+
+const formatDuration = (step: WorkflowStep): string => {
+  if (!step.startedAt || !step.completedAt) return '-';
+  const seconds = (step.completedAt - step.startedAt) / 1000;
+  return seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const formatTokens = (usage?: ModelUsage) =>
+  usage ? `${usage.estimated ? '~' : ''}${(usage.promptTokens + usage.completionTokens).toLocaleString()}` : '-';
+
+// Table cells can't contain pipes or newlines
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+
+// A fence longer than any backtick run inside the text, so it can't be closed early
+const fence = (text: string) => '`'.repeat(Math.max(3, ...(text.match(/`+/g) || []).map(run => run.length + 1)));
+
+/**
+ * The whole run as one Markdown document: goal, inputs, plan and results.
+ */
+export const createRunMarkdown = (run: WorkflowRun, options: RunExportOptions = {}): string => {
+  const stepNumbers = new Map(run.steps.map((s, i) => [s.id, i + 1]));
+  const lines: string[] = [
+    `# ${run.name}`,
+    '',
+    `- **Model:** ${run.provider} / ${run.model}`,
+    `- **Created:** ${formatDate(run.createdAt)}`,
+    `- **Last updated:** ${formatDate(run.updatedAt)}`,
+    `- **Steps completed:** ${run.steps.filter(s => s.status === StepStatus.COMPLETED).length}/${run.steps.length}`,
+  ];
+
+  const usage = summarizeUsage(getRunUsages(run), options.prices || {});
+  if (usage.calls > 0) {
+    const approx = usage.estimated ? '~' : '';
+    lines.push(`- **Tokens:** ${approx}${(usage.promptTokens + usage.completionTokens).toLocaleString()} (${approx}${usage.promptTokens.toLocaleString()} in, ${approx}${usage.completionTokens.toLocaleString()} out, ${usage.calls} calls)`);
+    if (options.prices) {
+      const unpriced = usage.unpricedModels.length > 0 ? ` (no price for ${usage.unpricedModels.join(', ')})` : '';
+      lines.push(`- **Cost:** ${formatCost(usage.cost)}${unpriced}`);
+    }
+  }
+  lines.push('');
+
+  if (run.goal) lines.push('## Goal', '', run.goal, '');
+
+  lines.push('## Input Files', '');
+  if (run.files.length === 0) lines.push('_No files._', '');
+  else {
+    lines.push('| File | Type | Size |', '| --- | --- | --- |');
+    run.files.forEach((f: UploadedFile) => lines.push(`| ${escapeCell(getFilePath(f))} | ${f.category} | ${formatSize(f.size)} |`));
+    lines.push('');
+  }
+
+  lines.push('## Plan', '', '| # | Step | Status | Depends on | Started | Duration | Tokens |', '| --- | --- | --- | --- | --- | --- | --- |');
+  run.steps.forEach((step, i) => {
+    const dependsOn = (step.dependsOn || []).map(id => stepNumbers.get(id)).filter(Boolean).join(', ') || '-';
+    lines.push(`| ${i + 1} | ${escapeCell(step.description)} | ${step.status} | ${dependsOn} | ${formatDate(step.startedAt)} | ${formatDuration(step)} | ${formatTokens(step.usage)} |`);
+  });
+  lines.push('');
+
+  run.steps.forEach((step, i) => {
+    lines.push(`## Step ${i + 1}: ${step.description}`, '');
+    if (step.instructions) lines.push(`> ${step.instructions.replace(/\n/g, '\n> ')}`, '');
+    if (options.includeThinking && step.thinking) {
+      const f = fence(step.thinking);
+      lines.push('### Thinking', '', `${f}text`, step.thinking, f, '');
+    }
+    if (step.error) lines.push(`**Error:** ${step.error}`, '');
+    if (step.result) lines.push(step.result, '');
+    else if (!step.error) lines.push(`_No result (${step.status.toLowerCase()})._`, '');
+  });
+
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; line-height: 1.55; color: #1e293b; max-width: 860px; margin: 2rem auto; padding: 0 1.5rem; }
+  h1 { border-bottom: 2px solid #3b82f6; padding-bottom: .3rem; }
+  h2 { margin-top: 2.2rem; border-bottom: 1px solid #e2e8f0; padding-bottom: .2rem; }
+  table { border-collapse: collapse; width: 100%; margin: 1rem 0; font-size: .9rem; }
+  th, td { border: 1px solid #cbd5e1; padding: .35rem .6rem; text-align: left; vertical-align: top; }
+  th { background: #eff6ff; }
+  pre { background: #f1f5f9; padding: .8rem 1rem; border-radius: 6px; overflow-x: auto; }
+  code { font-family: "SFMono-Regular", Consolas, "Courier New", monospace; font-size: .88em; }
+  blockquote { margin: 1rem 0; padding: .2rem 1rem; border-left: 4px solid #cbd5e1; color: #475569; }
+  @media print { body { margin: 0; max-width: none; } pre { white-space: pre-wrap; } h2 { break-after: avoid; } }
+`;
+
+/**
+ * A single self-contained HTML page (inline styles, no scripts). Raw HTML
+ * inside model output is dropped rather than rendered.
+ */
+export const createRunHtml = (run: WorkflowRun, options: RunExportOptions = {}): string => {
+  const body = unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkRehype)
+    .use(rehypeStringify)
+    .processSync(createRunMarkdown(run, options))
+    .toString();
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(run.name)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+};
+
+/**
+ * Opens the browser's print dialog for the HTML report, where it can be
+ * saved as PDF. Uses a hidden iframe so the app itself isn't printed.
+ */
+export const printRunHtml = (html: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const iframe = document.createElement('iframe');
+    iframe.style.position = 'fixed';
+    iframe.style.width = '0';
+    iframe.style.height = '0';
+    iframe.style.border = '0';
+    iframe.srcdoc = html;
+    iframe.onload = () => {
+      const frameWindow = iframe.contentWindow;
+      if (!frameWindow) {
+        iframe.remove();
+        reject(new Error('Print frame is not available'));
+        return;
+      }
+      frameWindow.onafterprint = () => iframe.remove();
+      frameWindow.focus();
+      frameWindow.print();
+      resolve();
+    };
+    document.body.appendChild(iframe);
+  });
+
+export const createRunBundle = (run: WorkflowRun): string =>
+  JSON.stringify({
+    format: RUN_BUNDLE_FORMAT,
+    version: RUN_BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    run,
+  } satisfies RunBundle, null, 2);
+
+const STEP_STATUSES = new Set<string>(Object.values(StepStatus));
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates a JSON bundle and returns the run it contains. Throws
+ * RunImportError describing the first problem found.
+ */
+export const parseRunBundle = (text: string): WorkflowRun => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RunImportError('The file is not valid JSON.');
+  }
+
+  if (!isObject(data) || data.format !== RUN_BUNDLE_FORMAT) {
+    throw new RunImportError('The file is not an exported workflow run.');
+  }
+  if (typeof data.version !== 'number' || data.version > RUN_BUNDLE_VERSION) {
+    throw new RunImportError(`Unsupported bundle version ${String(data.version)}.`);
+  }
+
+  const run = data.run;
+  if (!isObject(run)) throw new RunImportError('The bundle has no run.');
+  if (typeof run.goal !== 'string') throw new RunImportError('The run has no goal.');
+  if (!Array.isArray(run.files) || !Array.isArray(run.steps)) {
+    throw new RunImportError('The run is missing its files or steps.');
+  }
+
+  run.files.forEach((f: unknown, i) => {
+    if (!isObject(f) || typeof f.id !== 'string' || typeof f.name !== 'string' || typeof f.size !== 'number'
+      || !(typeof f.content === 'string' || f.content === null)) {
+      throw new RunImportError(`File ${i + 1} is malformed.`);
+    }
+  });
+  run.steps.forEach((s: unknown, i) => {
+    if (!isObject(s) || typeof s.id !== 'string' || typeof s.description !== 'string'
+      || typeof s.status !== 'string' || !STEP_STATUSES.has(s.status)) {
+      throw new RunImportError(`Step ${i + 1} is malformed.`);
+    }
+  });
+  if (run.chat !== undefined && !Array.isArray(run.chat)) throw new RunImportError('The follow-up chat is malformed.');
+  (Array.isArray(run.chat) ? run.chat : []).forEach((m: unknown, i) => {
+    if (!isObject(m) || typeof m.id !== 'string' || (m.role !== 'user' && m.role !== 'assistant')
+      || typeof m.content !== 'string') {
+      throw new RunImportError(`Chat message ${i + 1} is malformed.`);
+    }
+  });
+
+  const now = Date.now();
+  return {
+    id: typeof run.id === 'string' ? run.id : '',
+    name: typeof run.name === 'string' && run.name ? run.name : 'Imported run',
+    createdAt: typeof run.createdAt === 'number' ? run.createdAt : now,
+    updatedAt: typeof run.updatedAt === 'number' ? run.updatedAt : now,
+    goal: run.goal,
+    files: run.files as UploadedFile[],
+    steps: run.steps as WorkflowStep[],
+    provider: typeof run.provider === 'string' ? run.provider : 'unknown',
+    model: typeof run.model === 'string' ? run.model : 'unknown',
+    settings: isObject(run.settings) ? run.settings as GenerationSettings : undefined,
+    chat: run.chat as FollowUpMessage[] | undefined,
+    planUsage: isObject(run.planUsage) ? run.planUsage as unknown as ModelUsage : undefined,
+    followUpUsage: isObject(run.followUpUsage) ? run.followUpUsage as unknown as ModelUsage : undefined,
+    budget: isObject(run.budget) ? run.budget as RunBudget : undefined,
+  };
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { StepStatus, WorkflowStep, WorkflowTemplate } from '../types';
+import {
+  applyTemplate,
+  createTemplateBundle,
+  createTemplateFromSteps,
+  getTemplateVariables,
+  parseTemplateBundle,
+  TemplateImportError,
+} from './templates';
+
+const step = (id: string, description: string, patch: Partial<WorkflowStep> = {}): WorkflowStep =>
+  ({ id, description, status: StepStatus.COMPLETED, result: 'done', ...patch });
+
+const template: WorkflowTemplate = {
+  id: 't1',
+  name: 'Review a module',
+  description: '',
+  createdAt: 0,
+  updatedAt: 0,
+  steps: [
+    { id: 's1', title: 'Read {{ module }}', instructions: 'Focus on {{focus}}', outputType: 'analysis', targetFiles: ['{{module}}'], dependsOn: [] },
+    { id: 's2', title: 'Fix {{module}}', instructions: 'Fix it', outputType: 'code', targetFiles: [], dependsOn: ['s1'] },
+  ],
+};
+
+describe('getTemplateVariables', () => {
+  it('lists each variable once, in order of first use', () => {
+    expect(getTemplateVariables(template)).toEqual(['module', 'focus']);
+  });
+});
+
+describe('applyTemplate', () => {
+  it('fills in variables and leaves unset ones visible', () => {
+    const [first, second] = applyTemplate(template, { module: ' parser.py ', focus: '' });
+
+    expect(first).toMatchObject({ title: 'Read parser.py', instructions: 'Focus on {{focus}}', targetFiles: ['parser.py'] });
+    expect(second.title).toBe('Fix parser.py');
+  });
+});
+
+describe('createTemplateFromSteps', () => {
+  it('spells out the implicit dependencies of hand-added steps', () => {
+    const created = createTemplateFromSteps('t2', 'Mine', [
+      step('a', 'Summarize', { dependsOn: [] }),
+      step('b', 'Check', { dependsOn: ['a'] }),
+      step('c', 'Added by hand'),
+    ]);
+
+    expect(created.steps.map(s => [s.id, s.dependsOn])).toEqual([['a', []], ['b', ['a']], ['c', ['a', 'b']]]);
+    expect(created.steps[2]).toMatchObject({ title: 'Added by hand', instructions: 'Added by hand', outputType: 'analysis' });
+  });
+
+  it('drops dependencies on steps that were removed', () => {
+    const created = createTemplateFromSteps('t3', 'Edited', [step('a', 'A'), step('c', 'C', { dependsOn: ['a', 'b'] })]);
+
+    expect(created.steps[1].dependsOn).toEqual(['a']);
+  });
+
+  it('keeps implicit dependencies through an export and import', () => {
+    const created = createTemplateFromSteps('t4', 'Round trip', [step('a', 'A', { dependsOn: [] }), step('b', 'B')]);
+
+    const [imported] = parseTemplateBundle(createTemplateBundle([created]));
+
+    expect(imported.steps.map(s => s.dependsOn)).toEqual([[], ['a']]);
+  });
+});
+
+describe('parseTemplateBundle', () => {
+  const bundle = (data: Record<string, unknown>) =>
+    JSON.stringify({ format: 'gemini-agent-workflow-template', version: 1, templates: [], ...data });
+
+  it('reads every template of the file', () => {
+    const parsed = parseTemplateBundle(createTemplateBundle([template, { ...template, id: 't2', name: 'Other' }]));
+
+    expect(parsed.map(t => t.name)).toEqual(['Review a module', 'Other']);
+    expect(parsed[0].steps).toEqual(template.steps);
+  });
+
+  it.each([
+    ['not json', 'The file is not valid JSON.'],
+    [JSON.stringify({ format: 'something-else', templates: [] }), 'The file is not an exported template.'],
+    [bundle({ version: 99 }), 'Unsupported template version 99.'],
+    [bundle({ templates: [{ name: ' ', steps: [] }] }), 'Template 1 has no name.'],
+    [bundle({ templates: [{ name: 'Cyclic', steps: [{ id: 'a', title: 'A', dependsOn: ['a'] }] }] }), '"Cyclic": Step "a" depends on itself'],
+  ])('rejects %s', (text, message) => {
+    expect(() => parseTemplateBundle(text)).toThrow(new TemplateImportError(message));
+  });
+});
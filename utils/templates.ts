@@ -0,0 +1,134 @@
+import { PlannedStep, WorkflowStep, WorkflowTemplate } from '../types';
+import { PlanValidationError, validatePlan } from '../services/planSchema';
+import { resolveDependencies } from '../services/workflowGraph';
+
+export const TEMPLATE_BUNDLE_FORMAT = 'gemini-agent-workflow-template';
+const TEMPLATE_BUNDLE_VERSION = 1;
+
+/**
+ * Templates as written to disk; one file may hold several.
+ */
+export interface TemplateBundle {
+  format: typeof TEMPLATE_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  templates: WorkflowTemplate[];
+}
+
+export class TemplateImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateImportError';
+  }
+}
+
+const VARIABLE_REGEX = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+const getStepTexts = (step: PlannedStep): string[] => [step.title, step.instructions, ...step.targetFiles];
+
+/**
+ * Every `{{variable}}` used by the template, in order of first use.
+ */
+export const getTemplateVariables = (template: WorkflowTemplate): string[] => {
+  const names = new Set<string>();
+  template.steps.flatMap(getStepTexts).forEach(text => {
+    for (const match of text.matchAll(VARIABLE_REGEX)) names.add(match[1]);
+  });
+  return Array.from(names);
+};
+
+const fillVariables = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE_REGEX, (placeholder, name: string) => values[name]?.trim() || placeholder);
+
+/**
+ * The template's steps with variables filled in; unset variables are left
+ * as `{{name}}` so the gap is visible in the plan.
+ */
+export const applyTemplate = (template: WorkflowTemplate, values: Record<string, string>): PlannedStep[] =>
+  template.steps.map(step => ({
+    ...step,
+    title: fillVariables(step.title, values),
+    instructions: fillVariables(step.instructions, values),
+    targetFiles: step.targetFiles.map(f => fillVariables(f, values)).filter(Boolean),
+    dependsOn: [...step.dependsOn],
+  }));
+
+/**
+ * A template holding the plan of a run (not its results).
+ */
+export const createTemplateFromSteps = (id: string, name: string, steps: WorkflowStep[], description = ''): WorkflowTemplate => {
+  const now = Date.now();
+  return {
+    id,
+    name,
+    description,
+    createdAt: now,
+    updatedAt: now,
+    steps: steps.map(step => ({
+      id: step.id,
+      title: step.description,
+      instructions: step.instructions || step.description,
+      outputType: step.outputType || 'analysis',
+      targetFiles: step.targetFiles || [],
+      // Spells out the implicit "every earlier step" of hand-added steps, and drops
+      // dangling ids left by steps removed while editing the plan
+      dependsOn: resolveDependencies(step, steps),
+    })),
+  };
+};
+
+export const createTemplateBundle = (templates: WorkflowTemplate[]): string =>
+  JSON.stringify({
+    format: TEMPLATE_BUNDLE_FORMAT,
+    version: TEMPLATE_BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    templates,
+  } satisfies TemplateBundle, null, 2);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates a template file and returns its templates. Each template's steps
+ * go through the same checks as a generated plan.
+ */
+export const parseTemplateBundle = (text: string): WorkflowTemplate[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TemplateImportError('The file is not valid JSON.');
+  }
+
+  if (!isObject(data) || data.format !== TEMPLATE_BUNDLE_FORMAT || !Array.isArray(data.templates)) {
+    throw new TemplateImportError('The file is not an exported template.');
+  }
+  if (typeof data.version !== 'number' || data.version > TEMPLATE_BUNDLE_VERSION) {
+    throw new TemplateImportError(`Unsupported template version ${String(data.version)}.`);
+  }
+
+  const now = Date.now();
+  return data.templates.map((raw: unknown, i): WorkflowTemplate => {
+    const label = `Template ${i + 1}`;
+    if (!isObject(raw) || typeof raw.name !== 'string' || !raw.name.trim()) {
+      throw new TemplateImportError(`${label} has no name.`);
+    }
+    let steps: PlannedStep[];
+    try {
+      steps = validatePlan({ steps: raw.steps });
+    } catch (error) {
+      if (error instanceof PlanValidationError) {
+        throw new TemplateImportError(`"${raw.name}": ${error.issues.slice(0, 3).join('; ')}`);
+      }
+      throw error;
+    }
+    return {
+      id: typeof raw.id === 'string' ? raw.id : '',
+      name: raw.name.trim(),
+      description: typeof raw.description === 'string' ? raw.description : '',
+      createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : now,
+      updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : now,
+      steps,
+    };
+  });
+};
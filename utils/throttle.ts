@@ -0,0 +1,40 @@
+/**
+ * Coalesces rapid calls into at most one call per `intervalMs`, always
+ * delivering the latest arguments. `flush` runs any pending call immediately
+ * and `cancel` drops it.
+ */
+export const throttle = <Args extends unknown[]>(fn: (...args: Args) => void, intervalMs: number) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pendingArgs: Args | null = null;
+  let lastRun = 0;
+
+  const run = () => {
+    timer = null;
+    lastRun = Date.now();
+    if (pendingArgs) {
+      const args = pendingArgs;
+      pendingArgs = null;
+      fn(...args);
+    }
+  };
+
+  const throttled = (...args: Args) => {
+    pendingArgs = args;
+    if (timer) return;
+    const wait = Math.max(0, intervalMs - (Date.now() - lastRun));
+    timer = setTimeout(run, wait);
+  };
+
+  throttled.flush = () => {
+    if (timer) clearTimeout(timer);
+    run();
+  };
+
+  throttled.cancel = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    pendingArgs = null;
+  };
+
+  return throttled;
+};
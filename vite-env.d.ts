@@ -1,10 +1,18 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_GEMINI_API_KEY: string;
+  readonly VITE_GEMINI_API_KEY?: string;
+  readonly VITE_HF_TOKEN?: string;
+  readonly VITE_OPENAI_API_KEY?: string;
+  readonly VITE_LLM_PROVIDER?: string;
+  readonly VITE_LLM_MODEL?: string;
+  readonly VITE_LLM_BASE_URL?: string;
+  readonly VITE_LLM_API_KEY?: string;
+  readonly VITE_LLM_CONTEXT_TOKENS?: string;
+  readonly VITE_LLM_VISION?: string;
   // add other env variables here
 }
 
 interface ImportMeta {
   readonly env: ImportMetaEnv;
-}
\ No newline at end of file
+}
@@ -0,0 +1,31 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+/**
+ * Builds the headless `workflow` CLI into dist-cli/. Dependencies stay
+ * external and are loaded from node_modules at runtime.
+ */
+export default defineConfig({
+    // The CLI reads process.env at runtime; nothing from .env is baked in, and
+    // running it from source doesn't load .env into process.env either
+    envPrefix: 'WORKFLOW_CLI_BUILD_',
+    envDir: false,
+    publicDir: false,
+    build: {
+      ssr: 'cli/workflow.ts',
+      outDir: 'dist-cli',
+      target: 'node20',
+      emptyOutDir: true,
+      rollupOptions: {
+        output: {
+          entryFileNames: 'workflow.js',
+          banner: '#!/usr/bin/env node',
+        },
+      },
+    },
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, '.'),
+      }
+    }
+});
@@ -1,23 +1,57 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
-    return {
-      server: {
-        port: 3000,
-        host: '0.0.0.0',
-      },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
-      resolve: {
-        alias: {
-          '@': path.resolve(__dirname, '.'),
-        }
+const PYODIDE_DIR = path.resolve(__dirname, 'node_modules/pyodide');
+// Loaded by name at runtime relative to the index URL, so they can't go through the bundler
+const PYODIDE_FILES = ['pyodide.asm.mjs', 'pyodide.asm.wasm', 'python_stdlib.zip', 'pyodide-lock.json'];
+const CONTENT_TYPES: Record<string, string> = {
+  '.mjs': 'text/javascript',
+  '.wasm': 'application/wasm',
+  '.zip': 'application/zip',
+  '.json': 'application/json',
+};
+
+/**
+ * Serves the Pyodide runtime under /pyodide/ in dev and copies it into the
+ * build, so the code sandbox works without a CDN.
+ */
+const pyodideRuntime = (): Plugin => ({
+  name: 'pyodide-runtime',
+  configureServer(server) {
+    server.middlewares.use('/pyodide', (req, res, next) => {
+      const file = (req.url || '').split('?')[0].replace(/^\//, '');
+      if (!PYODIDE_FILES.includes(file)) return next();
+      res.setHeader('Content-Type', CONTENT_TYPES[path.extname(file)]);
+      fs.createReadStream(path.join(PYODIDE_DIR, file)).pipe(res);
+    });
+  },
+  generateBundle() {
+    PYODIDE_FILES.forEach(file => this.emitFile({
+      type: 'asset',
+      fileName: `pyodide/${file}`,
+      source: fs.readFileSync(path.join(PYODIDE_DIR, file)),
+    }));
+  },
+});
+
+export default defineConfig({
+    server: {
+      port: 3000,
+      host: '0.0.0.0',
+    },
+    plugins: [react(), pyodideRuntime()],
+    // Pre-bundling rewrites Pyodide's guarded Node-only imports; serve it as shipped
+    optimizeDeps: {
+      exclude: ['pyodide'],
+    },
+    worker: {
+      format: 'es',
+    },
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, '.'),
       }
-    };
+    }
 });